@@ -1,10 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2 } from 'lucide-react';
+import { Send, Bot, User, Loader2, FolderOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { categoryLabels, productLines } from '@/lib/documentTags';
 
 interface Message {
   id: string;
@@ -14,6 +25,9 @@ interface Message {
   isLoading?: boolean;
 }
 
+// Select items cannot have an empty value
+const ANY = 'any';
+
 interface ChatInterfaceProps {
   onSendMessage?: (message: string) => Promise<string>;
 }
@@ -29,6 +43,11 @@ export const ChatInterface = ({ onSendMessage }: ChatInterfaceProps) => {
   ]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [category, setCategory] = useState(ANY);
+  const [productLine, setProductLine] = useState(ANY);
+  const [collections, setCollections] = useState<Array<Pick<Tables<'collections'>, 'id' | 'name'>>>([]);
+  // Empty means every collection, and documents filed in none
+  const [collectionIds, setCollectionIds] = useState<string[]>([]);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -47,6 +66,27 @@ export const ChatInterface = ({ onSendMessage }: ChatInterfaceProps) => {
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    const loadCollections = async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('id, name')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading collections:', error);
+        return;
+      }
+      setCollections(data);
+    };
+
+    loadCollections();
+  }, []);
+
+  const toggleCollection = (id: string, checked: boolean) => {
+    setCollectionIds(prev => (checked ? [...prev, id] : prev.filter(collectionId => collectionId !== id)));
+  };
+
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
 
@@ -68,7 +108,14 @@ export const ChatInterface = ({ onSendMessage }: ChatInterfaceProps) => {
       } else {
         // Query RAG system directly
         const { data, error } = await supabase.functions.invoke('query-rag', {
-          body: { question: input.trim() }
+          body: {
+            question: input.trim(),
+            collectionIds,
+            filters: {
+              category: category === ANY ? undefined : category,
+              productLine: productLine === ANY ? undefined : productLine,
+            }
+          }
         });
 
         if (error) {
@@ -120,6 +167,64 @@ export const ChatInterface = ({ onSendMessage }: ChatInterfaceProps) => {
           <h2 className="font-semibold text-lg">Hero-Vida Strategy Assistant</h2>
           <p className="text-sm text-muted-foreground">AI-powered data analysis</p>
         </div>
+        {/* Answer only from documents tagged at ingest with these values */}
+        <div className="ml-auto flex gap-2">
+          {collections.length > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="h-8 text-xs">
+                  <FolderOpen className="h-3 w-3 mr-2" />
+                  {collectionIds.length === 0
+                    ? 'All collections'
+                    : collectionIds.length === 1
+                      ? collections.find(collection => collection.id === collectionIds[0])?.name
+                      : `${collectionIds.length} collections`}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-64 p-3">
+                <p className="text-xs text-muted-foreground mb-2">Answer only from documents in</p>
+                <div className="space-y-2">
+                  {collections.map((collection) => (
+                    <label key={collection.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={collectionIds.includes(collection.id)}
+                        onCheckedChange={(checked) => toggleCollection(collection.id, checked === true)}
+                      />
+                      <span className="truncate">{collection.name}</span>
+                    </label>
+                  ))}
+                </div>
+                {collectionIds.length > 0 && (
+                  <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => setCollectionIds([])}>
+                    Search all collections
+                  </Button>
+                )}
+              </PopoverContent>
+            </Popover>
+          )}
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-44 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All categories</SelectItem>
+              {Object.entries(categoryLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={productLine} onValueChange={setProductLine}>
+            <SelectTrigger className="w-36 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All products</SelectItem>
+              {productLines.map((product) => (
+                <SelectItem key={product} value={product}>{product}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Messages */}
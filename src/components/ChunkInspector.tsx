@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Loader2, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+interface InspectedDocument {
+  id: string;
+  name: string;
+  version: number;
+}
+
+interface ChunkInspectorProps {
+  document: InspectedDocument | null;
+  onClose: () => void;
+}
+
+interface IndexedChunk {
+  id: string;
+  content: string;
+  metadata: Record<string, Json | undefined>;
+}
+
+interface SimilarChunk extends IndexedChunk {
+  documentName: string;
+  similarity: number;
+}
+
+const CHUNK_PAGE_SIZE = 25;
+const SIMILAR_MATCH_COUNT = 10;
+
+// Rendered in the chunk header rather than as metadata badges; tags are the
+// document's, shown in the library
+const hiddenMetadataKeys = ['token_count', 'chunk_index', 'tags'];
+
+const asMetadata = (metadata: Json | null) =>
+  (metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : {});
+
+// Matches the server's estimate for chunks stored before token counts were recorded
+const tokenCount = (chunk: IndexedChunk) =>
+  typeof chunk.metadata.token_count === 'number'
+    ? chunk.metadata.token_count
+    : Math.ceil(chunk.content.length / 4);
+
+const formatMetadataValue = (value: Json | undefined) =>
+  (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+// Lists what was indexed for one document, in chunk order, and runs retrieval
+// from any chunk's stored vector to show what a query landing on it would return.
+export const ChunkInspector = ({ document, onClose }: ChunkInspectorProps) => {
+  const [chunks, setChunks] = useState<IndexedChunk[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [similarTo, setSimilarTo] = useState<string | null>(null);
+  const [similar, setSimilar] = useState<SimilarChunk[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const { toast } = useToast();
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / CHUNK_PAGE_SIZE));
+
+  const loadChunks = useCallback(async () => {
+    if (!document) return;
+    setIsLoading(true);
+
+    const { data, count, error } = await supabase
+      .from('embeddings')
+      .select('id, content, metadata', { count: 'exact' })
+      .eq('document_id', document.id)
+      .order('metadata->chunk_index', { ascending: true })
+      .range(page * CHUNK_PAGE_SIZE, page * CHUNK_PAGE_SIZE + CHUNK_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error loading chunks:', error);
+      toast({
+        title: "Load Error",
+        description: "Failed to load the document's chunks",
+        variant: "destructive",
+      });
+    } else {
+      setChunks(data.map(row => ({ ...row, metadata: asMetadata(row.metadata) })));
+      setTotalCount(count ?? 0);
+    }
+    setIsLoading(false);
+  }, [document, page, toast]);
+
+  useEffect(() => {
+    loadChunks();
+  }, [loadChunks]);
+
+  useEffect(() => {
+    setPage(0);
+    setSimilarTo(null);
+    setSimilar([]);
+  }, [document]);
+
+  const findSimilar = async (chunk: IndexedChunk) => {
+    setSimilarTo(chunk.id);
+    setSimilar([]);
+    setIsSearching(true);
+
+    try {
+      const { data: stored, error: vectorError } = await supabase
+        .from('embeddings')
+        .select('embedding')
+        .eq('id', chunk.id)
+        .single();
+
+      if (vectorError || !stored.embedding) {
+        throw vectorError ?? new Error('Chunk has no stored vector');
+      }
+
+      // Same search the chat runs, so results show what this chunk competes with
+      const { data: matches, error: matchError } = await supabase.rpc('match_documents', {
+        query_embedding: stored.embedding,
+        match_threshold: 0,
+        match_count: SIMILAR_MATCH_COUNT + 1
+      });
+
+      if (matchError) throw matchError;
+
+      const others = matches.filter(match => match.id !== chunk.id).slice(0, SIMILAR_MATCH_COUNT);
+      const documentIds = [...new Set(others.map(match => match.document_id))];
+      const { data: documents } = await supabase
+        .from('documents')
+        .select('id, name, version')
+        .in('id', documentIds);
+
+      const names = new Map((documents ?? []).map(doc => [doc.id, `${doc.name} (v${doc.version})`]));
+      setSimilar(others.map(match => ({
+        id: match.id,
+        content: match.content,
+        metadata: asMetadata(match.metadata),
+        documentName: names.get(match.document_id) ?? 'Unknown document',
+        similarity: match.similarity,
+      })));
+    } catch (error) {
+      console.error('Similarity search error:', error);
+      toast({
+        title: "Search Failed",
+        description: "Could not search for similar chunks",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const renderMetadata = (chunk: IndexedChunk) => {
+    const entries = Object.entries(chunk.metadata).filter(([key]) => !hiddenMetadataKeys.includes(key));
+    if (entries.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {entries.map(([key, value]) => (
+          <Badge key={key} variant="outline" className="text-xs font-normal max-w-full truncate">
+            {key}: {formatMetadataValue(value)}
+          </Badge>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={document !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Chunks of {document?.name} (v{document?.version})</DialogTitle>
+          <DialogDescription>
+            {totalCount} indexed chunk(s) in the order they were produced
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[65vh] pr-4">
+          {isLoading && chunks.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : chunks.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              This document has no indexed chunks
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {chunks.map((chunk) => (
+                <div key={chunk.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      #{typeof chunk.metadata.chunk_index === 'number' ? chunk.metadata.chunk_index : '—'}
+                    </span>
+                    <Badge variant="secondary" className="text-xs">{tokenCount(chunk)} tokens</Badge>
+                    <div className="flex-1" />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isSearching}
+                      onClick={() => findSimilar(chunk)}
+                    >
+                      {isSearching && similarTo === chunk.id ? (
+                        <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                      ) : (
+                        <Search className="h-3 w-3 mr-2" />
+                      )}
+                      Find similar
+                    </Button>
+                  </div>
+                  {renderMetadata(chunk)}
+                  <pre className="text-xs whitespace-pre-wrap break-words bg-muted/50 rounded p-2 font-mono">
+                    {chunk.content}
+                  </pre>
+
+                  {similarTo === chunk.id && !isSearching && (
+                    <div className="space-y-2 border-l-2 border-primary/50 pl-3">
+                      <p className="text-xs font-medium text-muted-foreground">
+                        Nearest chunks in the searchable knowledge base
+                      </p>
+                      {similar.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No other chunks matched</p>
+                      ) : (
+                        similar.map((match) => (
+                          <div key={match.id} className="text-xs space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge className="text-xs">{(match.similarity * 100).toFixed(1)}%</Badge>
+                              <span className="font-medium truncate">{match.documentName}</span>
+                              {typeof match.metadata.chunk_index === 'number' && (
+                                <span className="text-muted-foreground">#{match.metadata.chunk_index}</span>
+                              )}
+                            </div>
+                            <p className="text-muted-foreground line-clamp-3 whitespace-pre-wrap">{match.content}</p>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={page === 0 || isLoading}
+              onClick={() => setPage(prev => prev - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <Button
+              variant="outline"
+              size="icon"
+              disabled={page + 1 >= pageCount || isLoading}
+              onClick={() => setPage(prev => prev + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
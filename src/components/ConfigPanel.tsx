@@ -1,17 +1,41 @@
 import { useState, useEffect } from 'react';
-import { Settings, Key, Database, Shield, Save } from 'lucide-react';
+import { Settings, Key, Database, Shield, Save, RefreshCw, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
 
 interface ConfigPanelProps {
   onConfigSave?: (config: any) => void;
 }
 
+interface EmbeddingModel {
+  model: string;
+  dimensions: number;
+}
+
+// Returned by the manage-embeddings function
+interface ReembeddingJob extends EmbeddingModel {
+  id: string;
+  previousModel: string;
+  previousDimensions: number;
+  status: 'queued' | 'embedding' | 'done' | 'failed' | 'cancelled';
+  totalChunks: number;
+  processedChunks: number;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const REEMBEDDING_POLL_INTERVAL_MS = 3000;
+
+const isRunning = (job: ReembeddingJob | null) => job?.status === 'queued' || job?.status === 'embedding';
+
 export const ConfigPanel = ({ onConfigSave }: ConfigPanelProps) => {
   const [config, setConfig] = useState({
     geminiApiKey: '',
@@ -23,10 +47,115 @@ export const ConfigPanel = ({ onConfigSave }: ConfigPanelProps) => {
       model: 'text-embedding-004',
       dimensions: 768,
     },
+    upload: {
+      maxFileSizeMb: 500,
+    },
   });
   
+  // The model the knowledge base is embedded with, which the settings above may differ from
+  const [activeModel, setActiveModel] = useState<EmbeddingModel | null>(null);
+  const [reembedding, setReembedding] = useState<ReembeddingJob | null>(null);
+  const [isStartingReembedding, setIsStartingReembedding] = useState(false);
+
   const { toast } = useToast();
 
+  useEffect(() => {
+    const loadEmbeddingStatus = async () => {
+      const { data, error } = await supabase.functions.invoke('manage-embeddings', {
+        body: { action: 'status' }
+      });
+      if (error) {
+        console.error('Error loading embedding status:', error);
+        return;
+      }
+      setActiveModel(data.active);
+      setReembedding(data.job);
+      // The server's model is the one in use, whatever was last saved here
+      setConfig(prev => ({ ...prev, embedding: { ...data.active } }));
+    };
+    loadEmbeddingStatus();
+  }, []);
+
+  useEffect(() => {
+    if (!isRunning(reembedding)) return;
+
+    const poll = async () => {
+      const { data, error } = await supabase.functions.invoke('manage-embeddings', {
+        body: { action: 'status' }
+      });
+      if (error) {
+        console.error('Error polling re-embedding:', error);
+        return;
+      }
+
+      const job: ReembeddingJob | null = data.job;
+      if (job?.id === reembedding?.id && job.status === 'done') {
+        toast({
+          title: "Embedding Model Switched",
+          description: `Search now uses ${job.model} (${job.dimensions} dimensions)`,
+        });
+      } else if (job?.id === reembedding?.id && job.status === 'failed') {
+        toast({
+          title: "Re-embedding Failed",
+          description: job.error || 'Re-embedding failed',
+          variant: "destructive",
+        });
+      }
+      setActiveModel(data.active);
+      setReembedding(job);
+    };
+
+    const timer = setTimeout(poll, REEMBEDDING_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [reembedding, toast]);
+
+  const embeddingChanged = activeModel !== null &&
+    (config.embedding.model.trim() !== activeModel.model || config.embedding.dimensions !== activeModel.dimensions);
+
+  const startReembedding = async () => {
+    setIsStartingReembedding(true);
+    const { data, error } = await supabase.functions.invoke('manage-embeddings', {
+      body: { action: 'start', model: config.embedding.model.trim(), dimensions: config.embedding.dimensions }
+    });
+    setIsStartingReembedding(false);
+
+    if (error) {
+      console.error('Re-embedding error:', error);
+      // The function explains rejected models and dimensions in the response body
+      const reason = await error.context?.json?.().then((body: { error?: string }) => body.error).catch(() => null);
+      toast({
+        title: "Re-embedding Not Started",
+        description: reason || 'Could not start re-embedding',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReembedding(data.job);
+    toast({
+      title: "Re-embedding Started",
+      description: `Re-embedding ${data.job.totalChunks} chunks with ${data.job.model}. Search keeps using ${data.active.model} until it finishes`,
+    });
+  };
+
+  const cancelReembedding = async () => {
+    if (!reembedding) return;
+
+    const { error } = await supabase.functions.invoke('manage-embeddings', {
+      body: { action: 'cancel', jobId: reembedding.id }
+    });
+    if (error) {
+      console.error('Cancel re-embedding error:', error);
+      toast({
+        title: "Cancel Failed",
+        description: "Could not cancel re-embedding",
+        variant: "destructive",
+      });
+      return;
+    }
+    setReembedding({ ...reembedding, status: 'cancelled' });
+  };
+
   useEffect(() => {
     // Load config from localStorage on mount
     const savedConfig = localStorage.getItem('rag-config');
@@ -51,7 +180,9 @@ export const ConfigPanel = ({ onConfigSave }: ConfigPanelProps) => {
       
       toast({
         title: "Configuration Saved",
-        description: "Your settings have been saved successfully",
+        description: embeddingChanged
+          ? `Your settings have been saved. Re-embed the knowledge base to switch to ${config.embedding.model}`
+          : "Your settings have been saved successfully",
       });
     } catch (error) {
       console.error('Error saving config:', error);
@@ -173,7 +304,8 @@ export const ConfigPanel = ({ onConfigSave }: ConfigPanelProps) => {
                   className="mt-1"
                 />
                 <p className="text-xs text-muted-foreground mt-1">
-                  Model used for generating embeddings
+                  Model used for generating embeddings. A new model takes effect once the
+                  knowledge base is re-embedded (Database tab)
                 </p>
               </div>
             </div>
@@ -205,6 +337,78 @@ export const ConfigPanel = ({ onConfigSave }: ConfigPanelProps) => {
                 </p>
               </div>
 
+              <div className="p-4 rounded-lg border border-border bg-muted/50 space-y-3">
+                <div>
+                  <h4 className="font-medium">Embedding Model in Use</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {activeModel
+                      ? `${activeModel.model} · ${activeModel.dimensions} dimensions`
+                      : 'Loading...'}
+                  </p>
+                </div>
+
+                {isRunning(reembedding) && reembedding ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>
+                        Re-embedding with {reembedding.model}: {reembedding.processedChunks} of {reembedding.totalChunks} chunks
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={cancelReembedding}>
+                        <X className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                    <Progress
+                      value={reembedding.totalChunks > 0 ? (reembedding.processedChunks / reembedding.totalChunks) * 100 : 0}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Search keeps using {reembedding.previousModel} until every chunk is re-embedded, then
+                      switches over at once
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    {reembedding?.status === 'failed' && (
+                      <p className="text-sm text-destructive">
+                        Re-embedding with {reembedding.model} failed: {reembedding.error}. Starting it again
+                        resumes where it stopped
+                      </p>
+                    )}
+                    {embeddingChanged && (
+                      <p className="text-sm text-muted-foreground">
+                        Every chunk will be embedded again with {config.embedding.model} ({config.embedding.dimensions} dimensions)
+                      </p>
+                    )}
+                    <Button
+                      onClick={startReembedding}
+                      variant="outline"
+                      disabled={!embeddingChanged || isStartingReembedding}
+                      className="w-full"
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${isStartingReembedding ? 'animate-spin' : ''}`} />
+                      {isStartingReembedding ? 'Checking Model...' : 'Re-embed Knowledge Base'}
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              <div>
+                <Label>Maximum Upload Size (MB)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={config.upload.maxFileSizeMb}
+                  onChange={(e) => setConfig(prev => ({
+                    ...prev,
+                    upload: { ...prev.upload, maxFileSizeMb: parseInt(e.target.value) }
+                  }))}
+                  className="mt-1"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Files above 6MB upload in resumable chunks. Keep this at or below the storage bucket's file size limit
+                </p>
+              </div>
+
               <Button 
                 onClick={testVectorDbConnection}
                 variant="outline"
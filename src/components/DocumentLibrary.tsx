@@ -0,0 +1,677 @@
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import {
+  FileText,
+  History,
+  Layers,
+  RotateCcw,
+  RefreshCw,
+  Loader2,
+  Search,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  Trash2,
+  FolderOpen,
+  FileWarning
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChunkInspector } from '@/components/ChunkInspector';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { categoryLabels, documentTags, tagSummary, userTags } from '@/lib/documentTags';
+import { downloadRowErrorReport, rowErrorSummary } from '@/lib/rowErrorReport';
+import { formatFileSize } from '@/lib/utils';
+
+type LibraryDocument = Tables<'document_library'>;
+type SortColumn = 'name' | 'type' | 'chunk_count' | 'file_size' | 'created_at';
+
+interface DocumentVersion {
+  id: string;
+  name: string;
+  document_key: string;
+  version: number;
+  is_current: boolean;
+  created_at: string | null;
+}
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+// Select items cannot have an empty value
+const ALL = 'all';
+
+const typeLabels: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'text/csv': 'CSV',
+  'application/vnd.ms-excel': 'Excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'Excel',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'Word',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'PowerPoint',
+  'text/plain': 'Text',
+  'text/markdown': 'Markdown',
+  'text/x-markdown': 'Markdown',
+  'text/html': 'HTML',
+  'application/json': 'JSON',
+};
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  done: 'default',
+  failed: 'destructive',
+};
+
+// Scanned pages recognised at ingest; their text may contain recognition errors
+const ocrNote = (document: LibraryDocument): string | null => {
+  const metadata = document.metadata as { ocr_pages?: number[]; ocr_confidence?: number } | null;
+  const pages = metadata?.ocr_pages ?? [];
+  if (pages.length === 0) return null;
+
+  const confidence = metadata?.ocr_confidence !== undefined
+    ? `, ${Math.round(metadata.ocr_confidence * 100)}% average confidence`
+    : '';
+  return `Text of ${pages.length} scanned page(s) was read by OCR${confidence} and may be imperfect`;
+};
+
+// Ingested with some CSV/sheet rows reported as malformed
+const rowErrorNote = (document: LibraryDocument): string | null => {
+  const summary = rowErrorSummary(document.metadata);
+  if (!summary) return null;
+
+  return `${summary.rows} row(s) had problems${summary.skipped > 0 ? `, ${summary.skipped} left out` : ''}; ` +
+    'download the error report for details';
+};
+
+// The collection and tags the user filed the document under, then the category
+// and the places, periods, products and competitors found at ingest
+const DocumentTagLine = ({ document }: { document: LibraryDocument }) => {
+  const tags = documentTags(document.metadata);
+  const labels = userTags(document.metadata);
+  if (!tags && !document.collection_name && labels.length === 0) return null;
+
+  const summary = [...labels.map(label => `#${label}`), ...(tags ? [tagSummary(tags)] : [])]
+    .filter(Boolean)
+    .join(' · ');
+  return (
+    <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+      {document.collection_name && (
+        <Badge variant="secondary" className="text-xs font-normal shrink-0">
+          <FolderOpen className="h-3 w-3 mr-1" />
+          {document.collection_name}
+        </Badge>
+      )}
+      {tags && (
+        <Badge variant="outline" className="text-xs font-normal shrink-0">
+          {categoryLabels[tags.category] ?? tags.category}
+        </Badge>
+      )}
+      {summary && <span className="truncate" title={summary}>{summary}</span>}
+    </div>
+  );
+};
+
+const columns: Array<{ id: SortColumn; label: string }> = [
+  { id: 'name', label: 'Name' },
+  { id: 'type', label: 'Type' },
+  { id: 'chunk_count', label: 'Chunks' },
+  { id: 'file_size', label: 'Size' },
+  { id: 'created_at', label: 'Uploaded' },
+];
+
+export const DocumentLibrary = () => {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState(ALL);
+  const [collectionId, setCollectionId] = useState(ALL);
+  const [collections, setCollections] = useState<Array<Pick<Tables<'collections'>, 'id' | 'name'>>>([]);
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({ column: 'created_at', ascending: false });
+  const [page, setPage] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isReingesting, setIsReingesting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [inspecting, setInspecting] = useState<LibraryDocument | null>(null);
+  const { toast } = useToast();
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const isFiltered = search !== '' || category !== ALL || collectionId !== ALL;
+
+  const loadDocuments = useCallback(async () => {
+    setIsLoading(true);
+
+    // Current versions, plus any version still being ingested
+    let query = supabase
+      .from('document_library')
+      .select('*', { count: 'exact' })
+      .or('is_current.eq.true,ingestion_status.neq.done');
+
+    if (search) {
+      query = query.ilike('name', `%${search}%`);
+    }
+    if (category !== ALL) {
+      query = query.eq('metadata->tags->>category', category);
+    }
+    if (collectionId !== ALL) {
+      query = query.eq('collection_id', collectionId);
+    }
+
+    const { data, count, error } = await query
+      .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+      .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error loading documents:', error);
+      toast({
+        title: "Load Error",
+        description: "Failed to load documents",
+        variant: "destructive",
+      });
+    } else {
+      setDocuments(data);
+      setTotalCount(count ?? 0);
+    }
+    setIsLoading(false);
+  }, [page, search, category, collectionId, sort, toast]);
+
+  const loadVersions = useCallback(async (documentKey: string) => {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id, name, document_key, version, is_current, created_at')
+      .eq('document_key', documentKey)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error loading versions:', error);
+      return;
+    }
+    setVersions(data);
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments]);
+
+  useEffect(() => {
+    const loadCollections = async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('id, name')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading collections:', error);
+        return;
+      }
+      setCollections(data);
+    };
+
+    loadCollections();
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(prev => ({
+      column,
+      ascending: prev.column === column ? !prev.ascending : column === 'name' || column === 'type',
+    }));
+    setPage(0);
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id)));
+  };
+
+  const pageIds = documents.map(document => document.id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every(id => selectedIds.includes(id));
+
+  const togglePageSelected = (checked: boolean) => {
+    setSelectedIds(prev => (checked
+      ? [...new Set([...prev, ...pageIds])]
+      : prev.filter(id => !pageIds.includes(id))));
+  };
+
+  const downloadReport = async (document: LibraryDocument) => {
+    try {
+      await downloadRowErrorReport(document.id, document.name);
+    } catch (error) {
+      console.error('Row error report download error:', error);
+      toast({
+        title: "Download Failed",
+        description: `Could not download the error report for ${document.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleHistory = async (documentKey: string) => {
+    if (expandedKey === documentKey) {
+      setExpandedKey(null);
+      return;
+    }
+    setExpandedKey(documentKey);
+    setVersions([]);
+    await loadVersions(documentKey);
+  };
+
+  const rollback = async (version: DocumentVersion) => {
+    setRollingBackId(version.id);
+    const { error } = await supabase.functions.invoke('manage-document', {
+      body: { action: 'rollback', documentId: version.id }
+    });
+    setRollingBackId(null);
+
+    if (error) {
+      console.error('Rollback error:', error);
+      toast({
+        title: "Rollback Failed",
+        description: `Could not restore version ${version.version} of ${version.name}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Version Restored",
+      description: `${version.name} now answers from version ${version.version}`,
+    });
+    await Promise.all([loadDocuments(), loadVersions(version.document_key)]);
+  };
+
+  const reingestSelected = async () => {
+    setIsReingesting(true);
+    const { data, error } = await supabase.functions.invoke('manage-document', {
+      body: { action: 'reingest', documentIds: selectedIds }
+    });
+    setIsReingesting(false);
+
+    if (error) {
+      console.error('Re-ingest error:', error);
+      toast({
+        title: "Re-ingest Failed",
+        description: "Could not queue the selected documents",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Re-ingest Queued",
+      description: `Queued ${data.jobIds.length} document(s) for re-processing`,
+    });
+    setSelectedIds([]);
+    await loadDocuments();
+  };
+
+  const deleteSelected = async () => {
+    setConfirmingDelete(false);
+    setIsDeleting(true);
+    const { data, error } = await supabase.functions.invoke('manage-document', {
+      body: { action: 'delete', documentIds: selectedIds, allVersions: true }
+    });
+    setIsDeleting(false);
+
+    if (error) {
+      console.error('Delete error:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete the selected documents",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Documents Deleted",
+      description: `Removed ${data.deletedDocuments} document version(s) and their indexed content`,
+    });
+    setSelectedIds([]);
+    setExpandedKey(null);
+    await loadDocuments();
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+  return (
+    <Card className="p-6 glass">
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold mb-2">Document Library</h3>
+          <p className="text-sm text-muted-foreground">
+            Everything the assistant answers from, with the version history of each document
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search documents by name"
+              className="pl-9"
+            />
+          </div>
+          <Select
+            value={category}
+            onValueChange={(value) => {
+              setCategory(value);
+              setPage(0);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {Object.entries(categoryLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {collections.length > 0 && (
+            <Select
+              value={collectionId}
+              onValueChange={(value) => {
+                setCollectionId(value);
+                setPage(0);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All collections</SelectItem>
+                {collections.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {selectedIds.length > 0 && (
+            <>
+              <span className="text-sm text-muted-foreground">{selectedIds.length} selected</span>
+              <Button variant="outline" size="sm" onClick={reingestSelected} disabled={isReingesting}>
+                {isReingesting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                )}
+                Re-ingest
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfirmingDelete(true)}
+                disabled={isDeleting}
+                className="text-destructive hover:text-destructive"
+              >
+                {isDeleting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4 mr-2" />
+                )}
+                Delete
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+
+        {isLoading && documents.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : documents.length === 0 ? (
+          <Card className="p-8 text-center bg-card/50 border-border">
+            <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h5 className="font-medium mb-2">
+              {isFiltered ? 'No matching documents' : 'No documents yet'}
+            </h5>
+            <p className="text-sm text-muted-foreground">
+              {isFiltered
+                ? 'Try a different search term or filter'
+                : 'Upload files in the File Upload tab to build the knowledge base'}
+            </p>
+          </Card>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allOnPageSelected}
+                      onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                    />
+                  </TableHead>
+                  {columns.map((column) => (
+                    <TableHead key={column.id}>
+                      <button
+                        className="flex items-center gap-1 hover:text-foreground"
+                        onClick={() => toggleSort(column.id)}
+                      >
+                        {column.label}
+                        {sort.column === column.id && (
+                          sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                        )}
+                      </button>
+                    </TableHead>
+                  ))}
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-28" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((document) => (
+                  <Fragment key={document.id}>
+                    <TableRow data-state={selectedIds.includes(document.id) ? 'selected' : undefined}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(document.id)}
+                          onCheckedChange={(checked) => toggleSelected(document.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{document.name}</span>
+                          <Badge variant="secondary" className="text-xs shrink-0">v{document.version}</Badge>
+                          {ocrNote(document) && (
+                            <Badge
+                              variant="outline"
+                              className="text-xs shrink-0 border-amber-500/50 text-amber-600"
+                              title={ocrNote(document) ?? undefined}
+                            >
+                              OCR
+                            </Badge>
+                          )}
+                        </div>
+                        <DocumentTagLine document={document} />
+                      </TableCell>
+                      <TableCell>{typeLabels[document.type] ?? document.type}</TableCell>
+                      <TableCell>{document.chunk_count}</TableCell>
+                      <TableCell>{document.file_size ? formatFileSize(document.file_size) : '—'}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(document.created_at)}</TableCell>
+                      <TableCell>
+                        {document.ingestion_status === 'done' && rowErrorNote(document) ? (
+                          <Badge
+                            variant="outline"
+                            className="text-xs border-amber-500/50 text-amber-600"
+                            title={rowErrorNote(document) ?? undefined}
+                          >
+                            Partial
+                          </Badge>
+                        ) : (
+                          <Badge
+                            variant={statusVariants[document.ingestion_status] ?? 'secondary'}
+                            className="text-xs capitalize"
+                            title={document.ingestion_error ?? undefined}
+                          >
+                            {document.ingestion_status === 'done' ? 'Ready' : document.ingestion_status}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex">
+                          {rowErrorNote(document) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Download row error report"
+                              onClick={() => downloadReport(document)}
+                            >
+                              <FileWarning className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Inspect chunks"
+                            onClick={() => setInspecting(document)}
+                          >
+                            <Layers className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Version history"
+                            onClick={() => toggleHistory(document.document_key)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+
+                    {expandedKey === document.document_key && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={columns.length + 2}>
+                          <div className="space-y-1">
+                            {versions.map((version) => (
+                              <div key={version.id} className="flex items-center gap-3 text-sm py-1">
+                                <span className="font-medium w-10">v{version.version}</span>
+                                <span className="flex-1 text-xs text-muted-foreground truncate">
+                                  {formatDate(version.created_at)} · {version.name}
+                                </span>
+                                {version.is_current ? (
+                                  <Badge className="text-xs">Current</Badge>
+                                ) : (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={rollingBackId !== null}
+                                    onClick={() => rollback(version)}
+                                  >
+                                    {rollingBackId === version.id ? (
+                                      <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                                    ) : (
+                                      <RotateCcw className="h-3 w-3 mr-2" />
+                                    )}
+                                    Roll back
+                                  </Button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>{totalCount} document(s)</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="icon"
+                  disabled={page === 0}
+                  onClick={() => setPage(prev => prev - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>Page {page + 1} of {pageCount}</span>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  disabled={page + 1 >= pageCount}
+                  onClick={() => setPage(prev => prev + 1)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <ChunkInspector document={inspecting} onClose={() => setInspecting(null)} />
+
+      <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedIds.length} document(s)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every version of the selected documents is removed together with the stored files and all
+              indexed chunks. The assistant will no longer answer from them. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteSelected}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
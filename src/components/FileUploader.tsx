@@ -1,22 +1,205 @@
-import { useState, useCallback } from 'react';
-import { Upload, FileText, X, Check, AlertCircle } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import {
+  Upload,
+  FileText,
+  FileArchive,
+  X,
+  Check,
+  AlertCircle,
+  FolderPlus,
+  Pause,
+  Play,
+  MinusCircle,
+  Eye,
+  Download,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  IngestionPreviewDialog,
+  type ChunkingOptions,
+  type IngestionPreview,
+  type IngestionSettings,
+  type TextEncoding,
+} from '@/components/IngestionPreview';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { hashFile } from '@/lib/fileHash';
+import {
+  discardResumableUpload,
+  RESUMABLE_THRESHOLD_BYTES,
+  UploadPausedError,
+  uploadResumable,
+} from '@/lib/resumableUpload';
+import { downloadRowErrorReport } from '@/lib/rowErrorReport';
+import { formatFileSize } from '@/lib/utils';
+
+type JobStage = 'queued' | 'extracting' | 'ocr' | 'chunking' | 'embedding' | 'done' | 'failed';
+type DuplicateMode = 'skip' | 'replace' | 'version';
+type Collection = Pick<Tables<'collections'>, 'id' | 'name'>;
+
+interface DuplicateInfo {
+  documentId: string | null;
+  jobId: string | null;
+  name: string;
+  createdAt: string;
+}
 
 interface UploadedFile {
   id: string;
   name: string;
   size: number;
   type: string;
-  status: 'uploading' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'paused' | 'previewing' | 'preview' | 'processing' | 'duplicate' | 'completed' | 'skipped' | 'error';
   progress: number;
+  // Set for resumable uploads, which report bytes sent and can be paused
+  uploadedBytes?: number;
   error?: string;
+  warning?: string;
+  storagePath?: string;
+  contentHash?: string;
+  duplicate?: DuplicateInfo;
+  jobId?: string;
+  documentId?: string;
+  stage?: JobStage;
+  processedChunks?: number;
+  totalChunks?: number;
+  // CSV/sheet rows with problems; the rest of the file is ingested
+  rowErrors?: number;
+  // Where the user filed the upload; kept so a duplicate resolved later lands in the same place
+  collectionId?: string;
+  tags?: string[];
+  // Preview the ingestion before queueing it, with the chunking and encoding then chosen
+  reviewFirst?: boolean;
+  preview?: IngestionPreview;
+  chunking?: ChunkingOptions;
+  encoding?: TextEncoding;
+  // Files expanded from a ZIP archive point at the archive's entry in the list
+  groupId?: string;
+  // Folder path inside the archive
+  archivePath?: string;
+}
+
+interface ArchiveExpansion {
+  archive: { id: string; name: string };
+  jobs: Array<{ jobId: string; fileName: string; fileType: string; fileSize: number; path: string }>;
+  skipped: Array<{ fileName: string; path: string; reason: string }>;
+}
+
+// Shape returned by the ingestion-status edge function
+interface IngestionJobStatus {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number | null;
+  archive: { id: string; name: string; path: string } | null;
+  status: JobStage;
+  progress: number;
+  totalChunks: number;
+  processedChunks: number;
+  failedChunks: number;
+  rowErrors: number;
+  documentId: string | null;
+  error: string | null;
 }
 
+const JOB_POLL_INTERVAL_MS = 2000;
+// Used until a limit is saved in the configuration panel
+const DEFAULT_MAX_UPLOAD_MB = 500;
+
+// Select items cannot have an empty value
+const NO_COLLECTION = 'none';
+const NEW_COLLECTION = 'new';
+
+const stageLabels: Record<JobStage, string> = {
+  queued: 'Queued',
+  extracting: 'Extracting',
+  ocr: 'Reading scanned pages',
+  chunking: 'Chunking',
+  embedding: 'Embedding',
+  done: 'Ready',
+  failed: 'Error',
+};
+
+// Browsers leave the type empty for extensions the OS doesn't know (.md on Windows, for one)
+const extensionTypes: Record<string, string> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  txt: 'text/plain',
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+  zip: 'application/zip',
+};
+
+const archiveTypes = ['application/zip', 'application/x-zip-compressed'];
+
+const fileTypeOf = (file: File): string =>
+  file.type || extensionTypes[file.name.split('.').pop()?.toLowerCase() ?? ''] || '';
+
+// "fy25, Pricing ,fy25" -> ["fy25", "Pricing"]
+const parseTags = (input: string): string[] => {
+  const tags = input.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, i) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === i);
+};
+
+// Configurable because the storage bucket's own limit depends on the Supabase plan
+const maxUploadSizeMb = (): number => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('rag-config') ?? '{}');
+    const limit = Number(saved.upload?.maxFileSizeMb);
+    return limit > 0 ? limit : DEFAULT_MAX_UPLOAD_MB;
+  } catch {
+    return DEFAULT_MAX_UPLOAD_MB;
+  }
+};
+
+// Ingested, but not all of it: chunks that failed to embed, rows with problems
+const partialIngestionNote = (job: IngestionJobStatus): string | undefined => {
+  const notes = [
+    job.failedChunks > 0 ? `${job.failedChunks} of ${job.totalChunks} chunks could not be embedded` : null,
+    job.rowErrors > 0 ? `${job.rowErrors} row(s) had problems` : null,
+  ].filter(Boolean);
+  return notes.length > 0 ? notes.join('; ') : undefined;
+};
+
+const applyJobStatus = (file: UploadedFile, job: IngestionJobStatus): UploadedFile => ({
+  ...file,
+  status: job.status === 'done' ? 'completed' : job.status === 'failed' ? 'error' : 'processing',
+  stage: job.status,
+  progress: job.progress,
+  processedChunks: job.processedChunks,
+  totalChunks: job.totalChunks,
+  error: job.status === 'failed' ? job.error || 'Processing failed' : undefined,
+  documentId: job.documentId ?? undefined,
+  rowErrors: job.rowErrors,
+  warning: partialIngestionNote(job),
+});
+
+
 interface FileUploaderProps {
   onFilesUploaded?: (files: File[]) => Promise<void>;
 }
@@ -24,38 +207,374 @@ interface FileUploaderProps {
 export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [fileToDelete, setFileToDelete] = useState<UploadedFile | null>(null);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collectionId, setCollectionId] = useState(NO_COLLECTION);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [isCreatingCollection, setIsCreatingCollection] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [maxFileSizeMb] = useState(maxUploadSizeMb);
+  const [reviewFirst, setReviewFirst] = useState(false);
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  // Files being uploaded, kept so a paused upload can be resumed
+  const pendingFiles = useRef(new Map<string, File>());
+  const uploadControllers = useRef(new Map<string, AbortController>());
   const { toast } = useToast();
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const hasActiveJobs = files.some(f => f.jobId && f.status === 'processing');
+  const reviewedFile = files.find(f => f.id === previewFileId) ?? null;
+
+  // Restore jobs that were still running when the page was last closed
+  useEffect(() => {
+    const restoreJobs = async () => {
+      const { data, error } = await supabase.functions.invoke('ingestion-status', { body: {} });
+      if (error) {
+        console.error('Error loading ingestion jobs:', error);
+        return;
+      }
+
+      const activeJobs = (data.jobs as IngestionJobStatus[]).filter(
+        job => job.status !== 'done' && job.status !== 'failed'
+      );
+      setFiles(prev => {
+        const restored = activeJobs
+          .filter(job => !prev.some(f => f.jobId === job.id))
+          .map(job => applyJobStatus({
+            id: job.id,
+            name: job.fileName,
+            size: job.fileSize ?? 0,
+            type: job.fileType,
+            status: 'processing',
+            progress: job.progress,
+            jobId: job.id,
+            groupId: job.archive?.id,
+            archivePath: job.archive?.path,
+          }, job));
+
+        // Files from the same archive are grouped under an entry for the archive again
+        const archives = new Map(activeJobs.flatMap(job => (job.archive ? [[job.archive.id, job.archive.name]] : [])));
+        const archiveEntries: UploadedFile[] = [...archives]
+          .filter(([id]) => !prev.some(f => f.id === id))
+          .map(([id, name]) => ({ id, name, size: 0, type: 'application/zip', status: 'completed', progress: 100 }));
+
+        return [...prev, ...archiveEntries, ...restored];
+      });
+    };
+
+    restoreJobs();
+  }, []);
+
+  useEffect(() => {
+    const loadCollections = async () => {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('id, name')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading collections:', error);
+        return;
+      }
+      setCollections(data);
+    };
+
+    loadCollections();
+  }, []);
+
+  const createCollection = async () => {
+    const name = newCollectionName.trim();
+    if (!name) return;
+
+    setIsCreatingCollection(true);
+    const { data, error } = await supabase
+      .from('collections')
+      .insert({ name })
+      .select('id, name')
+      .single();
+    setIsCreatingCollection(false);
+
+    if (error) {
+      console.error('Error creating collection:', error);
+      toast({
+        title: "Collection Error",
+        description: error.code === '23505' ? `A collection named "${name}" already exists` : 'Could not create the collection',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCollections(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+    setCollectionId(data.id);
+    setNewCollectionName('');
   };
 
+  // Poll ingestion-status for stage-by-stage progress while any job is running
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const poll = async () => {
+      const jobIds = files.filter(f => f.jobId && f.status === 'processing').map(f => f.jobId);
+      const { data, error } = await supabase.functions.invoke('ingestion-status', { body: { jobIds } });
+      if (error) {
+        console.error('Error polling ingestion jobs:', error);
+        return;
+      }
+
+      const jobs = data.jobs as IngestionJobStatus[];
+      for (const job of jobs) {
+        if (job.status === 'done' && (job.failedChunks > 0 || job.rowErrors > 0)) {
+          toast({
+            title: "Partially Ingested",
+            description: `${job.fileName}: ${partialIngestionNote(job)}`,
+            variant: "destructive",
+          });
+        } else if (job.status === 'failed') {
+          toast({
+            title: "Processing Error",
+            description: `${job.fileName}: ${job.error || 'Processing failed'}`,
+            variant: "destructive",
+          });
+        }
+      }
+
+      setFiles(prev => prev.map(f => {
+        const job = jobs.find(j => j.id === f.jobId);
+        return job && f.status === 'processing' ? applyJobStatus(f, job) : f;
+      }));
+    };
+
+    const timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [files, hasActiveJobs, toast]);
+
   const validateFile = (file: File): string | null => {
     const allowedTypes = [
       'application/pdf',
       'text/csv',
       'application/vnd.ms-excel',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'text/plain',
+      'text/markdown',
+      'text/x-markdown',
+      'text/html',
+      'application/json',
+      ...archiveTypes
     ];
     
-    if (!allowedTypes.includes(file.type)) {
-      return 'Only PDF and CSV files are allowed';
+    if (!allowedTypes.includes(fileTypeOf(file))) {
+      return 'Only PDF, Word, PowerPoint, CSV, Excel, text, Markdown, HTML, JSON and ZIP files are allowed';
     }
     
-    if (file.size > 50 * 1024 * 1024) { // 50MB limit
-      return 'File size must be less than 50MB';
+    if (file.size > maxFileSizeMb * 1024 * 1024) {
+      return `File size must be less than ${maxFileSizeMb}MB`;
     }
     
     return null;
   };
 
+  // Queue an uploaded file for ingestion; progress is then polled from ingestion-status
+  const queueFile = async (uploadedFile: UploadedFile, onDuplicate?: DuplicateMode) => {
+    const { data: queueResult, error: queueError } = await supabase.functions
+      .invoke('process-file', {
+        body: {
+          fileName: uploadedFile.name,
+          fileUrl: uploadedFile.storagePath,
+          fileType: uploadedFile.type,
+          fileSize: uploadedFile.size,
+          contentHash: uploadedFile.contentHash,
+          collectionId: uploadedFile.collectionId,
+          tags: uploadedFile.tags,
+          chunking: uploadedFile.chunking,
+          encoding: uploadedFile.encoding,
+          onDuplicate
+        }
+      });
+
+    if (queueError) {
+      console.error('Processing error:', queueError);
+      setFiles(prev => prev.map(f => 
+        f.id === uploadedFile.id 
+          ? { ...f, status: 'error', error: 'Processing failed' }
+          : f
+      ));
+      return;
+    }
+
+    const ingestedOn = (duplicate: DuplicateInfo) => new Date(duplicate.createdAt).toLocaleDateString();
+
+    if (queueResult.status === 'expanded') {
+      addArchiveFiles(uploadedFile, queueResult as ArchiveExpansion);
+    } else if (queueResult.status === 'duplicate') {
+      setFiles(prev => prev.map(f => 
+        f.id === uploadedFile.id 
+          ? { ...f, ...uploadedFile, status: 'duplicate', progress: 0, duplicate: queueResult.duplicate }
+          : f
+      ));
+    } else if (queueResult.status === 'skipped') {
+      setFiles(prev => prev.map(f => 
+        f.id === uploadedFile.id 
+          ? { ...f, status: 'completed', progress: 100, warning: `Skipped: already ingested on ${ingestedOn(queueResult.duplicate)}` }
+          : f
+      ));
+    } else {
+      console.log('File queued for processing:', queueResult);
+      setFiles(prev => prev.map(f => 
+        f.id === uploadedFile.id 
+          ? { ...f, status: 'processing', stage: 'queued', progress: 5, jobId: queueResult.jobId, duplicate: undefined }
+          : f
+      ));
+    }
+  };
+
+  // The archive's entry stays as the group header; each file in it gets its own
+  // row, polled like any other upload, and unsupported files are listed as skipped
+  const addArchiveFiles = (archiveFile: UploadedFile, expansion: ArchiveExpansion) => {
+    const folderOf = (path: string) => path.split('/').slice(0, -1).join('/') || undefined;
+    const queued: UploadedFile[] = expansion.jobs.map(job => ({
+      id: job.jobId,
+      name: job.fileName,
+      size: job.fileSize,
+      type: job.fileType,
+      status: 'processing',
+      stage: 'queued',
+      progress: 5,
+      jobId: job.jobId,
+      groupId: archiveFile.id,
+      archivePath: folderOf(job.path),
+    }));
+    const skipped: UploadedFile[] = expansion.skipped.map(entry => ({
+      id: `${archiveFile.id}:${entry.path}`,
+      name: entry.fileName,
+      size: 0,
+      type: '',
+      status: 'skipped',
+      progress: 0,
+      warning: entry.reason,
+      groupId: archiveFile.id,
+      archivePath: folderOf(entry.path),
+    }));
+
+    setFiles(prev => [
+      ...prev.map(f => (f.id === archiveFile.id ? { ...f, status: 'completed' as const, progress: 100 } : f)),
+      ...queued,
+      ...skipped,
+    ]);
+
+    toast({
+      title: "Archive Expanded",
+      description: `${archiveFile.name}: queued ${queued.length} file(s)${skipped.length > 0 ? `, skipped ${skipped.length}` : ''}`,
+    });
+  };
+
+  const resolveDuplicate = async (uploadedFile: UploadedFile, mode: DuplicateMode) => {
+    setFiles(prev => prev.map(f => 
+      f.id === uploadedFile.id ? { ...f, status: 'uploading' } : f
+    ));
+
+    try {
+      await queueFile(uploadedFile, mode);
+    } catch (error) {
+      console.error('Error resolving duplicate:', error);
+      setFiles(prev => prev.map(f => 
+        f.id === uploadedFile.id 
+          ? { ...f, status: 'error', error: 'Processing error' }
+          : f
+      ));
+    }
+  };
+
+  // Dry run of ingestion on the stored file: nothing is queued until the user confirms
+  const previewFile = async (uploadedFile: UploadedFile, settings?: IngestionSettings) => {
+    const encoding = settings ? settings.encoding : uploadedFile.encoding;
+    markFile(uploadedFile.id, { ...uploadedFile, status: 'previewing', progress: 100, encoding });
+
+    const { data, error } = await supabase.functions.invoke('process-file', {
+      body: {
+        fileName: uploadedFile.name,
+        fileUrl: uploadedFile.storagePath,
+        fileType: uploadedFile.type,
+        contentHash: uploadedFile.contentHash,
+        chunking: settings?.chunking ?? uploadedFile.chunking,
+        encoding,
+        preview: true
+      }
+    });
+
+    if (error) {
+      console.error('Preview error:', error);
+      // Extraction failures come back with the reason, as the ingestion job would report it
+      const reason = await error.context?.json?.().then((body: { error?: string }) => body.error).catch(() => null);
+      // Formats that must be read whole are not previewed past a size limit; they
+      // go straight to the ingestion queue, which has no such limit
+      if (error.context?.status === 413) {
+        toast({
+          title: "Preview Unavailable",
+          description: `${uploadedFile.name} is too large to preview and is being ingested directly`,
+        });
+        setPreviewFileId(prev => (prev === uploadedFile.id ? null : prev));
+        markFile(uploadedFile.id, { status: 'uploading', encoding });
+        try {
+          await queueFile({ ...uploadedFile, chunking: settings?.chunking ?? uploadedFile.chunking, encoding });
+        } catch (queueError) {
+          console.error('Error queueing file:', queueError);
+          markFile(uploadedFile.id, { status: 'error', error: 'Processing error' });
+        }
+        return;
+      }
+      markFile(uploadedFile.id, { status: 'error', error: reason || 'Preview failed' });
+      setPreviewFileId(prev => (prev === uploadedFile.id ? null : prev));
+      discardStoredFile(uploadedFile);
+      return;
+    }
+
+    markFile(uploadedFile.id, {
+      status: 'preview',
+      preview: data.preview,
+      chunking: data.preview.chunking,
+      duplicate: data.duplicate ?? undefined,
+    });
+  };
+
+  const confirmPreview = async (uploadedFile: UploadedFile, { chunking, encoding }: IngestionSettings) => {
+    setPreviewFileId(null);
+    markFile(uploadedFile.id, { status: 'uploading', chunking, encoding, preview: undefined });
+
+    try {
+      await queueFile({ ...uploadedFile, chunking, encoding, duplicate: undefined });
+    } catch (error) {
+      console.error('Error queueing previewed file:', error);
+      markFile(uploadedFile.id, { status: 'error', error: 'Processing error' });
+    }
+  };
+
+  const downloadReport = async (uploadedFile: UploadedFile) => {
+    try {
+      await downloadRowErrorReport(uploadedFile.documentId!, uploadedFile.name);
+    } catch (error) {
+      console.error('Row error report download error:', error);
+      toast({
+        title: "Download Failed",
+        description: `Could not download the error report for ${uploadedFile.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const discardStoredFile = (uploadedFile: UploadedFile) => {
+    if (!uploadedFile.storagePath) return;
+    supabase.storage
+      .from('documents')
+      .remove([uploadedFile.storagePath])
+      .then(({ error }) => error && console.error('Storage delete error:', error));
+  };
+
   const processFiles = async (fileList: FileList | File[]) => {
     const validFiles: File[] = [];
     const newFiles: UploadedFile[] = [];
+    const uploadCollectionId = collectionId === NO_COLLECTION || collectionId === NEW_COLLECTION ? undefined : collectionId;
+    const tags = parseTags(tagInput);
 
     Array.from(fileList).forEach((file) => {
       const error = validateFile(file);
@@ -63,10 +582,14 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
         id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
         name: file.name,
         size: file.size,
-        type: file.type,
+        type: fileTypeOf(file),
         status: error ? 'error' : 'uploading',
         progress: 0,
         error,
+        collectionId: uploadCollectionId,
+        tags,
+        // Archives are previewed file by file once expanded, so they go straight through
+        reviewFirst: reviewFirst && !archiveTypes.includes(fileTypeOf(file)),
       };
 
       newFiles.push(uploadedFile);
@@ -91,70 +614,15 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
       const correspondingFileData = newFiles.find(f => f.name === file.name);
       if (!correspondingFileData) continue;
 
-      try {
-        // Upload to Supabase Storage
-        const fileName = `${Date.now()}-${file.name}`;
-        const { data, error } = await supabase.storage
-          .from('documents')
-          .upload(fileName, file);
-
-        if (error) {
-          console.error('Upload error:', error);
-          setFiles(prev => prev.map(f => 
-            f.id === correspondingFileData.id 
-              ? { ...f, status: 'error', error: 'Upload failed' }
-              : f
-          ));
-          continue;
-        }
-
-        setFiles(prev => prev.map(f => 
-          f.id === correspondingFileData.id 
-            ? { ...f, status: 'processing', progress: 50 }
-            : f
-        ));
-
-        // Process file with edge function
-        const { data: processResult, error: processError } = await supabase.functions
-          .invoke('process-file', {
-            body: {
-              fileName: file.name,
-              fileUrl: fileName,
-              fileType: file.type
-            }
-          });
-
-        if (processError) {
-          console.error('Processing error:', processError);
-          setFiles(prev => prev.map(f => 
-            f.id === correspondingFileData.id 
-              ? { ...f, status: 'error', error: 'Processing failed' }
-              : f
-          ));
-        } else {
-          console.log('File processed successfully:', processResult);
-          setFiles(prev => prev.map(f => 
-            f.id === correspondingFileData.id 
-              ? { ...f, status: 'completed', progress: 100 }
-              : f
-          ));
-        }
-      } catch (error) {
-        console.error('Error processing file:', error);
-        setFiles(prev => prev.map(f => 
-          f.id === correspondingFileData.id 
-            ? { ...f, status: 'error', error: 'Processing error' }
-            : f
-        ));
-      }
+      await uploadAndQueue(file, correspondingFileData);
     }
 
     if (onFilesUploaded) {
       try {
         await onFilesUploaded(validFiles);
         toast({
-          title: "Files Processed",
-          description: `Successfully processed ${validFiles.length} file(s)`,
+          title: "Files Queued",
+          description: `Queued ${validFiles.length} file(s) for processing`,
         });
       } catch (error) {
         console.error('Error in onFilesUploaded callback:', error);
@@ -162,6 +630,77 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
     }
   };
 
+  const markFile = (id: string, changes: Partial<UploadedFile>) => {
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...changes } : f)));
+  };
+
+  // Small files go up in one request; larger ones through the resumable endpoint,
+  // which reports byte progress, survives network drops and can be paused
+  const uploadAndQueue = async (file: File, uploadedFile: UploadedFile) => {
+    pendingFiles.current.set(uploadedFile.id, file);
+
+    try {
+      const contentHash = uploadedFile.contentHash ?? await hashFile(file);
+      const fileName = `${Date.now()}-${file.name}`;
+      let storagePath = fileName;
+
+      if (file.size > RESUMABLE_THRESHOLD_BYTES) {
+        const controller = new AbortController();
+        uploadControllers.current.set(uploadedFile.id, controller);
+        markFile(uploadedFile.id, { status: 'uploading', contentHash, uploadedBytes: 0 });
+
+        storagePath = await uploadResumable(file, fileName, {
+          signal: controller.signal,
+          onProgress: (uploadedBytes, totalBytes) => markFile(uploadedFile.id, {
+            uploadedBytes,
+            progress: Math.round((uploadedBytes / totalBytes) * 100),
+          }),
+        });
+      } else {
+        const { error } = await supabase.storage
+          .from('documents')
+          .upload(fileName, file);
+
+        if (error) {
+          console.error('Upload error:', error);
+          markFile(uploadedFile.id, { status: 'error', error: 'Upload failed' });
+          return;
+        }
+      }
+
+      pendingFiles.current.delete(uploadedFile.id);
+      if (uploadedFile.reviewFirst) {
+        await previewFile({ ...uploadedFile, storagePath, contentHash });
+      } else {
+        await queueFile({ ...uploadedFile, storagePath, contentHash });
+      }
+    } catch (error) {
+      if (error instanceof UploadPausedError) {
+        markFile(uploadedFile.id, { status: 'paused' });
+        return;
+      }
+      console.error('Error processing file:', error);
+      markFile(uploadedFile.id, {
+        // A failed resumable upload can still be resumed from where it stopped
+        status: pendingFiles.current.has(uploadedFile.id) && file.size > RESUMABLE_THRESHOLD_BYTES ? 'paused' : 'error',
+        error: error instanceof Error ? error.message : 'Processing error',
+      });
+    } finally {
+      uploadControllers.current.delete(uploadedFile.id);
+    }
+  };
+
+  const pauseUpload = (file: UploadedFile) => {
+    uploadControllers.current.get(file.id)?.abort();
+  };
+
+  const resumeUpload = (file: UploadedFile) => {
+    const pending = pendingFiles.current.get(file.id);
+    if (!pending) return;
+    markFile(file.id, { status: 'uploading', error: undefined });
+    uploadAndQueue(pending, file);
+  };
+
   const simulateUpload = async (fileId: string) => {
     // Simulate upload progress
     for (let progress = 0; progress <= 100; progress += 20) {
@@ -182,7 +721,8 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
     ));
   };
 
-  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+  // Not memoized: it must see the collection and tags currently selected
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragOver(false);
     
@@ -190,7 +730,7 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
     if (droppedFiles.length > 0) {
       processFiles(droppedFiles);
     }
-  }, []);
+  };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = e.target.files;
@@ -200,8 +740,61 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
     e.target.value = ''; // Reset input
   };
 
-  const removeFile = (fileId: string) => {
-    setFiles(prev => prev.filter(f => f.id !== fileId));
+  // Ingested files are purged server-side after confirmation; anything that
+  // never reached ingestion only needs its stored copy (if any) discarded
+  const removeFile = async (file: UploadedFile) => {
+    const pending = pendingFiles.current.get(file.id);
+    if (pending) {
+      uploadControllers.current.get(file.id)?.abort();
+      discardResumableUpload(pending);
+      pendingFiles.current.delete(file.id);
+    }
+
+    if (file.jobId || archiveJobIds(file).length > 0) {
+      setFileToDelete(file);
+      return;
+    }
+
+    if (file.status === 'duplicate') {
+      // Skipping discards the uploaded copy from storage
+      await queueFile(file, 'skip').catch(error => console.error('Error discarding duplicate:', error));
+    } else if (file.status === 'preview') {
+      discardStoredFile(file);
+    }
+    if (previewFileId === file.id) {
+      setPreviewFileId(null);
+    }
+    setFiles(prev => prev.filter(f => f.id !== file.id && f.groupId !== file.id));
+  };
+
+  // Jobs of the files expanded from an archive entry
+  const archiveJobIds = (file: UploadedFile): string[] =>
+    files.filter(f => f.groupId === file.id && f.jobId).map(f => f.jobId!);
+
+  const confirmDelete = async () => {
+    const file = fileToDelete;
+    setFileToDelete(null);
+    if (!file) return;
+
+    const { error } = await supabase.functions.invoke('manage-document', {
+      body: { action: 'delete', jobIds: file.jobId ? [file.jobId] : archiveJobIds(file) }
+    });
+
+    if (error) {
+      console.error('Delete error:', error);
+      toast({
+        title: "Delete Failed",
+        description: `Could not delete ${file.name}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFiles(prev => prev.filter(f => f.id !== file.id && f.groupId !== file.id));
+    toast({
+      title: "File Deleted",
+      description: `${file.name} and all of its indexed content were removed`,
+    });
   };
 
   const getStatusIcon = (status: UploadedFile['status']) => {
@@ -210,43 +803,288 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
         return <Check className="h-4 w-4 text-green-500" />;
       case 'error':
         return <AlertCircle className="h-4 w-4 text-destructive" />;
+      case 'duplicate':
+        return <AlertCircle className="h-4 w-4 text-yellow-500" />;
+      case 'paused':
+        return <Pause className="h-4 w-4 text-muted-foreground" />;
+      case 'skipped':
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+      case 'preview':
+        return <Eye className="h-4 w-4 text-primary" />;
       default:
         return <FileText className="h-4 w-4 text-muted-foreground" />;
     }
   };
 
-  const getStatusBadge = (status: UploadedFile['status']) => {
+  const getStatusBadge = (file: UploadedFile) => {
+    const { status } = file;
     const variants: Record<UploadedFile['status'], 'default' | 'secondary' | 'destructive'> = {
       uploading: 'secondary',
+      paused: 'secondary',
+      previewing: 'secondary',
+      preview: 'secondary',
       processing: 'secondary',
+      duplicate: 'secondary',
       completed: 'default',
+      skipped: 'secondary',
       error: 'destructive',
     };
 
     const labels: Record<UploadedFile['status'], string> = {
       uploading: 'Uploading',
+      paused: 'Paused',
+      previewing: 'Previewing',
+      preview: 'Awaiting review',
       processing: 'Processing',
+      duplicate: 'Duplicate',
       completed: 'Ready',
+      skipped: 'Skipped',
       error: 'Error',
     };
 
+    let label = labels[status];
+    if (status === 'processing' && file.stage) {
+      label = stageLabels[file.stage];
+      if (file.stage === 'embedding' && file.totalChunks) {
+        label += ` ${file.processedChunks}/${file.totalChunks}`;
+      }
+    }
+
     return (
       <Badge variant={variants[status]} className="text-xs">
-        {labels[status]}
+        {label}
       </Badge>
     );
   };
 
+  const renderFile = (file: UploadedFile) => (
+    <div
+      key={file.id}
+      className="flex items-center gap-3 p-3 rounded-lg border border-border bg-card/50"
+    >
+      {getStatusIcon(file.status)}
+      
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">
+          {file.archivePath && <span className="text-muted-foreground font-normal">{file.archivePath}/</span>}
+          {file.name}
+        </p>
+        <div className="flex items-center gap-2 mt-1">
+          {file.status !== 'skipped' && (
+            <span className="text-xs text-muted-foreground">
+              {(file.status === 'uploading' || file.status === 'paused') && file.uploadedBytes !== undefined
+                ? `${formatFileSize(file.uploadedBytes)} of ${formatFileSize(file.size)}`
+                : formatFileSize(file.size)}
+            </span>
+          )}
+          {getStatusBadge(file)}
+        </div>
+
+        {(file.collectionId || file.tags?.length) ? (
+          <p className="text-xs text-muted-foreground mt-1 truncate">
+            {[
+              collections.find(collection => collection.id === file.collectionId)?.name,
+              ...(file.tags ?? []).map(tag => `#${tag}`),
+            ].filter(Boolean).join(' · ')}
+          </p>
+        ) : null}
+        
+        {file.status === 'uploading' || file.status === 'paused' || file.status === 'previewing' || file.status === 'processing' ? (
+          <Progress value={file.progress} className="mt-2 h-1" />
+        ) : null}
+        
+        {file.error && (
+          <p className="text-xs text-destructive mt-1">{file.error}</p>
+        )}
+
+        {file.warning && (
+          <p className="text-xs text-yellow-500 mt-1">{file.warning}</p>
+        )}
+
+        {file.status === 'completed' && file.documentId && (file.rowErrors ?? 0) > 0 && (
+          <Button size="sm" variant="outline" className="mt-2" onClick={() => downloadReport(file)}>
+            <Download className="h-3 w-3 mr-2" />
+            Download Error Report
+          </Button>
+        )}
+
+        {file.status === 'preview' && file.preview && (
+          <div className="mt-2 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {file.preview.sampled ? '~' : ''}{file.preview.chunks.total} chunks · {file.preview.estimate.embeddingRequests} embedding request(s) ·
+              ~{file.preview.estimate.tokens.toLocaleString()} tokens
+              {file.preview.estimate.scannedPages > 0 ? ` · ${file.preview.estimate.scannedPages} scanned page(s) not counted` : ''}
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setPreviewFileId(file.id)}>
+                <Eye className="h-3 w-3 mr-2" />
+                Review
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => confirmPreview(file, { chunking: file.chunking ?? file.preview!.chunking, encoding: file.encoding })}
+              >
+                Ingest
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {file.status === 'duplicate' && file.duplicate && (
+          <div className="mt-2 space-y-2">
+            <p className="text-xs text-yellow-500">
+              {file.duplicate.documentId
+                ? `Already ingested on ${new Date(file.duplicate.createdAt).toLocaleDateString()} as "${file.duplicate.name}"`
+                : `"${file.duplicate.name}" with the same content is already being processed`}
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => resolveDuplicate(file, 'skip')}>
+                Skip
+              </Button>
+              {file.duplicate.documentId && (
+                <Button size="sm" variant="outline" onClick={() => resolveDuplicate(file, 'replace')}>
+                  Replace
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => resolveDuplicate(file, 'version')}>
+                Keep both
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {file.uploadedBytes !== undefined && file.status === 'uploading' && (
+        <Button variant="ghost" size="icon" title="Pause upload" onClick={() => pauseUpload(file)} className="shrink-0">
+          <Pause className="h-4 w-4" />
+        </Button>
+      )}
+      {file.status === 'paused' && (
+        <Button variant="ghost" size="icon" title="Resume upload" onClick={() => resumeUpload(file)} className="shrink-0">
+          <Play className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => removeFile(file)}
+        className="shrink-0"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  // An expanded archive: one header with the combined outcome, then a row per file
+  const renderArchive = (archive: UploadedFile, group: UploadedFile[]) => {
+    const count = (status: UploadedFile['status']) => group.filter(f => f.status === status).length;
+    const active = group.filter(f => f.status === 'processing');
+    const queued = group.filter(f => f.status !== 'skipped');
+    const progress = queued.length > 0
+      ? Math.round(queued.reduce((total, f) => total + f.progress, 0) / queued.length)
+      : 100;
+    const summary = [
+      `${count('completed')} ready`,
+      active.length > 0 ? `${active.length} processing` : null,
+      count('error') > 0 ? `${count('error')} failed` : null,
+      count('skipped') > 0 ? `${count('skipped')} skipped` : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <div key={archive.id} className="p-3 rounded-lg border border-border bg-card/30">
+        <div className="flex items-center gap-3">
+          <FileArchive className="h-4 w-4 text-muted-foreground" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{archive.name}</p>
+            <p className="text-xs text-muted-foreground mt-1">
+              {group.length} file(s) in archive · {summary}
+            </p>
+            {active.length > 0 && <Progress value={progress} className="mt-2 h-1" />}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeFile(archive)}
+            className="shrink-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="mt-3 ml-7 space-y-2">
+          {group.map(renderFile)}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <Card className="p-6 glass">
       <div className="space-y-6">
         <div>
           <h3 className="text-lg font-semibold mb-2">Upload Data Files</h3>
           <p className="text-sm text-muted-foreground">
-            Upload CSV or PDF files to analyze with the RAG system
+            Upload documents, spreadsheets, notes and data exports to analyze with the RAG system
           </p>
         </div>
 
+        {/* Collection and tags applied to the next files uploaded */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Collection (optional)</Label>
+            <Select value={collectionId} onValueChange={setCollectionId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+                {collections.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>{collection.name}</SelectItem>
+                ))}
+                <SelectItem value={NEW_COLLECTION}>New collection…</SelectItem>
+              </SelectContent>
+            </Select>
+            {collectionId === NEW_COLLECTION && (
+              <div className="flex gap-2">
+                <Input
+                  value={newCollectionName}
+                  onChange={(e) => setNewCollectionName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && createCollection()}
+                  placeholder="e.g. FY25 pricing study"
+                />
+                <Button
+                  variant="outline"
+                  onClick={createCollection}
+                  disabled={!newCollectionName.trim() || isCreatingCollection}
+                >
+                  <FolderPlus className="h-4 w-4 mr-2" />
+                  Create
+                </Button>
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="upload-tags">Tags (optional)</Label>
+            <Input
+              id="upload-tags"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Comma separated, e.g. fy25, pricing, north zone"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Switch id="review-first" checked={reviewFirst} onCheckedChange={setReviewFirst} />
+          <div>
+            <Label htmlFor="review-first">Preview before ingesting</Label>
+            <p className="text-xs text-muted-foreground">
+              See the extracted text, chunks and embedding estimate, and adjust chunking, before anything is indexed
+            </p>
+          </div>
+        </div>
+
         {/* Upload Zone */}
         <div
           className={`upload-zone ${isDragOver ? 'drag-over' : ''}`}
@@ -260,12 +1098,13 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
           <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
           <h4 className="text-lg font-medium mb-2">Drop files here or click to upload</h4>
           <p className="text-sm text-muted-foreground mb-4">
-            Supports CSV and PDF files up to 50MB
+            Supports PDF, Word (.docx), PowerPoint (.pptx), CSV, Excel, text, Markdown, HTML and JSON files up to {maxFileSizeMb}MB,
+            or a ZIP archive of them
           </p>
           <input
             type="file"
             multiple
-            accept=".csv,.pdf,.xlsx,.xls"
+            accept=".csv,.pdf,.xlsx,.xls,.docx,.pptx,.txt,.md,.markdown,.html,.htm,.json,.zip"
             onChange={handleFileSelect}
             className="hidden"
             id="file-upload"
@@ -282,45 +1121,49 @@ export const FileUploader = ({ onFilesUploaded }: FileUploaderProps) => {
           <div className="space-y-3">
             <h4 className="font-medium">Uploaded Files</h4>
             <div className="space-y-2">
-              {files.map((file) => (
-                <div
-                  key={file.id}
-                  className="flex items-center gap-3 p-3 rounded-lg border border-border bg-card/50"
-                >
-                  {getStatusIcon(file.status)}
-                  
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{file.name}</p>
-                    <div className="flex items-center gap-2 mt-1">
-                      <span className="text-xs text-muted-foreground">
-                        {formatFileSize(file.size)}
-                      </span>
-                      {getStatusBadge(file.status)}
-                    </div>
-                    
-                    {file.status === 'uploading' || file.status === 'processing' ? (
-                      <Progress value={file.progress} className="mt-2 h-1" />
-                    ) : null}
-                    
-                    {file.error && (
-                      <p className="text-xs text-destructive mt-1">{file.error}</p>
-                    )}
-                  </div>
-
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removeFile(file.id)}
-                    className="shrink-0"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              ))}
+              {files.filter(file => !file.groupId).map((file) => {
+                const group = files.filter(f => f.groupId === file.id);
+                return group.length > 0 ? renderArchive(file, group) : renderFile(file);
+              })}
             </div>
           </div>
         )}
       </div>
+
+      <IngestionPreviewDialog
+        fileName={reviewedFile?.name ?? null}
+        preview={reviewedFile?.preview ?? null}
+        duplicateName={reviewedFile?.duplicate?.name}
+        encoding={reviewedFile?.encoding}
+        isRefreshing={reviewedFile?.status === 'previewing'}
+        onRefresh={(settings) => reviewedFile && previewFile(reviewedFile, settings)}
+        onConfirm={(settings) => reviewedFile && confirmPreview(reviewedFile, settings)}
+        onDiscard={() => reviewedFile && removeFile(reviewedFile)}
+        onClose={() => setPreviewFileId(null)}
+      />
+
+      <AlertDialog open={fileToDelete !== null} onOpenChange={(open) => !open && setFileToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {fileToDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {fileToDelete && !fileToDelete.jobId
+                ? `This removes the ${archiveJobIds(fileToDelete).length} document(s) ingested from the archive, with their stored files and indexed chunks.`
+                : 'This removes the stored file, its document and every indexed chunk, so it can no longer be used to answer questions.'}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+export type ChunkingStrategy = 'rows' | 'heading' | 'semantic' | 'fixed';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+// Encodings a CSV can be read with (supabase/functions/_shared/encoding.ts)
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// What the user can change before ingesting; no encoding means detect it
+export interface IngestionSettings {
+  chunking: ChunkingOptions;
+  encoding?: TextEncoding;
+}
+
+// Returned by process-file in preview mode (supabase/functions/_shared/preview.ts)
+export interface IngestionPreview {
+  textLength: number;
+  sample: string;
+  structure: {
+    sections: number;
+    pages?: number;
+    tables?: number;
+    sheets?: Array<{ name: string; columns: string[]; rows: number }>;
+    columns?: string[];
+    rows?: number;
+    slides?: number;
+    headings?: number;
+    encoding?: { name: string; source: string };
+    rowErrors?: {
+      rows: number;
+      skipped: number;
+      sample: Array<{ table: string; row: number; problem: string; raw: string; skipped: boolean }>;
+    };
+    schema?: Array<{ table: string; columns: Array<{ name: string; type: string; currency?: string }> }>;
+  };
+  // Set when only the start of a large file was read; the totals are scaled up from it
+  sampled?: { unit: 'bytes' | 'pages' | 'rows'; read: number; total: number };
+  defaultStrategy: ChunkingStrategy;
+  chunking: ChunkingOptions;
+  chunks: {
+    total: number;
+    averageTokens: number;
+    largestTokens: number;
+    sample: Array<{ content: string; tokenCount: number; metadata: Record<string, unknown> }>;
+  };
+  estimate: {
+    model: string;
+    embeddingRequests: number;
+    tokens: number;
+    scannedPages: number;
+  };
+}
+
+const strategyLabels: Record<ChunkingStrategy, string> = {
+  rows: 'Table rows',
+  heading: 'By heading',
+  semantic: 'Paragraphs and sentences',
+  fixed: 'Fixed word windows',
+};
+
+const encodingLabels: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 (Western European)',
+};
+
+const encodingSources: Record<string, string> = {
+  bom: 'byte order mark',
+  detected: 'detected from the content',
+  override: 'chosen by you',
+};
+
+// Select has no empty value; this stands for detecting the encoding
+const AUTO_ENCODING = 'auto';
+
+// Server-side limits (supabase/functions/_shared/chunking.ts)
+const MIN_CHUNK_TOKENS = 32;
+const MAX_CHUNK_TOKENS = 2048;
+
+const formatSampleAmount = (amount: number, unit: 'bytes' | 'pages' | 'rows') =>
+  (unit === 'bytes' ? `${(amount / (1024 * 1024)).toFixed(1)} MB` : `${amount.toLocaleString()} ${unit}`);
+
+const formatMetadataValue = (value: unknown) =>
+  (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+interface IngestionPreviewDialogProps {
+  fileName: string | null;
+  preview: IngestionPreview | null;
+  // Set when the stored file matches a document already ingested
+  duplicateName?: string;
+  // Encoding override the preview was produced with
+  encoding?: TextEncoding;
+  isRefreshing: boolean;
+  onRefresh: (settings: IngestionSettings) => void;
+  onConfirm: (settings: IngestionSettings) => void;
+  onDiscard: () => void;
+  onClose: () => void;
+}
+
+// Shows what ingesting an uploaded file would produce, before anything is stored
+// or embedded, and lets the chunking be tuned and previewed again first.
+export const IngestionPreviewDialog = ({
+  fileName,
+  preview,
+  duplicateName,
+  encoding: previewEncoding,
+  isRefreshing,
+  onRefresh,
+  onConfirm,
+  onDiscard,
+  onClose,
+}: IngestionPreviewDialogProps) => {
+  const [chunking, setChunking] = useState<ChunkingOptions | null>(null);
+  const [encoding, setEncoding] = useState<TextEncoding | undefined>(previewEncoding);
+
+  // Options the preview was produced with, as the server resolved them
+  useEffect(() => {
+    setChunking(preview?.chunking ?? null);
+    setEncoding(previewEncoding);
+  }, [preview, previewEncoding]);
+
+  const changed = chunking !== null && preview !== null &&
+    (chunking.strategy !== preview.chunking.strategy ||
+      chunking.maxTokens !== preview.chunking.maxTokens ||
+      chunking.overlapTokens !== preview.chunking.overlapTokens ||
+      encoding !== previewEncoding);
+
+  const structure = preview?.structure;
+  const structureLines = structure ? [
+    structure.pages !== undefined ? `${structure.pages} page(s)` : null,
+    structure.tables ? `${structure.tables} table(s) indexed as rows` : null,
+    structure.slides !== undefined ? `${structure.slides} slide(s)` : null,
+    structure.headings !== undefined ? `${structure.headings} heading(s)` : null,
+    structure.rows !== undefined ? `${structure.rows} data row(s)` : null,
+    structure.columns ? `Columns: ${structure.columns.join(', ')}` : null,
+    structure.encoding
+      ? `Read as ${encodingLabels[structure.encoding.name as TextEncoding] ?? structure.encoding.name} (${encodingSources[structure.encoding.source] ?? structure.encoding.source})`
+      : null,
+    ...(structure.sheets ?? []).map(sheet => `Sheet "${sheet.name}": ${sheet.rows} row(s) · ${sheet.columns.join(', ')}`),
+    ...(structure.schema ?? []).map(table =>
+      `Column types in "${table.table}": ${table.columns
+        .map(column => `${column.name} (${column.currency ? `${column.type} ${column.currency}` : column.type})`)
+        .join(', ')}`),
+    `${structure.sections} extracted section(s)`,
+  ].filter(Boolean) : [];
+
+  return (
+    <Dialog open={fileName !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Preview of {fileName}</DialogTitle>
+          <DialogDescription>
+            Nothing has been indexed or embedded yet. Adjust the chunking if needed, then ingest or discard the file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview || !chunking ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Extracted text</p>
+                <p className="text-lg font-semibold">{preview.sampled ? '~' : ''}{preview.textLength.toLocaleString()} chars</p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Chunks</p>
+                <p className="text-lg font-semibold">{preview.sampled ? '~' : ''}{preview.chunks.total.toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground">
+                  avg {preview.chunks.averageTokens} · max {preview.chunks.largestTokens} tokens
+                </p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Embedding requests</p>
+                <p className="text-lg font-semibold">
+                  {preview.sampled ? '~' : ''}{preview.estimate.embeddingRequests.toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{preview.estimate.model}</p>
+              </div>
+              <div className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground">Tokens to embed</p>
+                <p className="text-lg font-semibold">~{preview.estimate.tokens.toLocaleString()}</p>
+              </div>
+            </div>
+
+            {preview.sampled && (
+              <p className="text-xs text-muted-foreground">
+                Based on the first {formatSampleAmount(preview.sampled.read, preview.sampled.unit)} of
+                {' '}{formatSampleAmount(preview.sampled.total, preview.sampled.unit)}: the totals above are scaled up
+                from it, while the chunks, text and structure below describe only that part
+              </p>
+            )}
+            {preview.estimate.scannedPages > 0 && (
+              <p className="text-xs text-yellow-500">
+                {preview.sampled ? 'About ' : ''}{preview.estimate.scannedPages} scanned page(s) will be read by OCR
+                during ingestion; their chunks and tokens are not included above
+              </p>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-4 items-end">
+              <div className="space-y-1 sm:col-span-2">
+                <Label>Chunking strategy</Label>
+                <Select
+                  value={chunking.strategy}
+                  onValueChange={(strategy) => setChunking({ ...chunking, strategy: strategy as ChunkingStrategy })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(strategyLabels) as ChunkingStrategy[]).map((strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {strategyLabels[strategy]}{strategy === preview.defaultStrategy ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preview-max-tokens">Max tokens</Label>
+                <Input
+                  id="preview-max-tokens"
+                  type="number"
+                  min={MIN_CHUNK_TOKENS}
+                  max={MAX_CHUNK_TOKENS}
+                  value={chunking.maxTokens}
+                  onChange={(e) => setChunking({ ...chunking, maxTokens: parseInt(e.target.value) || MIN_CHUNK_TOKENS })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preview-overlap">Overlap tokens</Label>
+                <Input
+                  id="preview-overlap"
+                  type="number"
+                  min={0}
+                  value={chunking.overlapTokens}
+                  onChange={(e) => setChunking({ ...chunking, overlapTokens: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            {preview.structure.encoding && (
+              <div className="grid gap-3 sm:grid-cols-4 items-end">
+                <div className="space-y-1 sm:col-span-2">
+                  <Label>Character encoding</Label>
+                  <Select
+                    value={encoding ?? AUTO_ENCODING}
+                    onValueChange={(value) => setEncoding(value === AUTO_ENCODING ? undefined : value as TextEncoding)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_ENCODING}>Detect automatically</SelectItem>
+                      {(Object.keys(encodingLabels) as TextEncoding[]).map((name) => (
+                        <SelectItem key={name} value={name}>{encodingLabels[name]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground sm:col-span-2">
+                  Read as {encodingLabels[preview.structure.encoding.name as TextEncoding] ?? preview.structure.encoding.name}
+                  {' '}({encodingSources[preview.structure.encoding.source] ?? preview.structure.encoding.source}).
+                  Pick another encoding if symbols such as ₹ or city names look garbled in the extracted text
+                </p>
+              </div>
+            )}
+            {preview.defaultStrategy === 'rows' && (
+              <p className="text-xs text-muted-foreground">
+                Table rows are grouped into chunks as they are extracted; these options only change how any prose is split
+              </p>
+            )}
+            {changed && (
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>The figures above are for the previous options</span>
+                <Button variant="outline" size="sm" disabled={isRefreshing} onClick={() => onRefresh({ chunking, encoding })}>
+                  {isRefreshing ? (
+                    <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-3 w-3 mr-2" />
+                  )}
+                  Update Preview
+                </Button>
+              </div>
+            )}
+
+            <Tabs defaultValue="chunks">
+              <TabsList>
+                <TabsTrigger value="chunks">First {preview.chunks.sample.length} chunks</TabsTrigger>
+                <TabsTrigger value="text">Extracted text</TabsTrigger>
+                <TabsTrigger value="structure">Structure</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="chunks">
+                <ScrollArea className="h-[40vh] pr-4">
+                  <div className="space-y-3">
+                    {preview.chunks.sample.map((chunk, index) => (
+                      <div key={index} className="rounded-lg border border-border p-3 space-y-2">
+                        <div className="flex flex-wrap items-center gap-1">
+                          <span className="text-sm font-medium mr-1">#{index}</span>
+                          <Badge variant="secondary" className="text-xs">{chunk.tokenCount} tokens</Badge>
+                          {Object.entries(chunk.metadata).map(([key, value]) => (
+                            <Badge key={key} variant="outline" className="text-xs font-normal max-w-full truncate">
+                              {key}: {formatMetadataValue(value)}
+                            </Badge>
+                          ))}
+                        </div>
+                        <pre className="text-xs whitespace-pre-wrap break-words bg-muted/50 rounded p-2 font-mono">
+                          {chunk.content}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="text">
+                <ScrollArea className="h-[40vh] pr-4">
+                  <pre className="text-xs whitespace-pre-wrap break-words bg-muted/50 rounded p-2 font-mono">
+                    {preview.sample}
+                    {preview.textLength > preview.sample.length ? '\n…' : ''}
+                  </pre>
+                </ScrollArea>
+              </TabsContent>
+
+              <TabsContent value="structure">
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {structureLines.map((line) => (
+                    <li key={line}>• {line}</li>
+                  ))}
+                </ul>
+              </TabsContent>
+            </Tabs>
+
+            {preview.structure.rowErrors && (
+              <div className="rounded-lg border border-yellow-500/50 p-3 space-y-2">
+                <p className="text-xs text-yellow-500">
+                  {preview.structure.rowErrors.rows} row(s) have problems
+                  {preview.structure.rowErrors.skipped > 0 ? `; ${preview.structure.rowErrors.skipped} will be left out` : ''}.
+                  The rest will be ingested, and the full report can be downloaded afterwards
+                </p>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {preview.structure.rowErrors.sample.map((rowError) => (
+                    <li key={`${rowError.table}:${rowError.row}`} className="truncate" title={rowError.raw}>
+                      Row {rowError.row}: {rowError.problem}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {duplicateName && (
+              <p className="text-xs text-yellow-500">
+                "{duplicateName}" has identical content; you will be asked how to handle the duplicate when ingesting
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard}>
+            Discard File
+          </Button>
+          <Button disabled={!chunking || isRefreshing} onClick={() => chunking && onConfirm({ chunking, encoding })}>
+            Ingest
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { 
   MessageSquare, 
   Upload, 
@@ -8,9 +8,11 @@ import {
   ChevronLeft,
   ChevronRight,
   BarChart3,
-  FileText
+  FileText,
+  Library
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 
 interface SidebarProps {
@@ -20,6 +22,25 @@ interface SidebarProps {
 
 export const Sidebar = ({ activeTab, onTabChange }: SidebarProps) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [documentCount, setDocumentCount] = useState<number | null>(null);
+
+  // Refreshed on every tab switch so uploads and deletions show up
+  useEffect(() => {
+    const loadDocumentCount = async () => {
+      const { count, error } = await supabase
+        .from('documents')
+        .select('id', { count: 'exact', head: true })
+        .eq('is_current', true);
+
+      if (error) {
+        console.error('Error loading document count:', error);
+        return;
+      }
+      setDocumentCount(count ?? 0);
+    };
+
+    loadDocumentCount();
+  }, [activeTab]);
 
   const menuItems = [
     {
@@ -32,7 +53,13 @@ export const Sidebar = ({ activeTab, onTabChange }: SidebarProps) => {
       id: 'upload',
       label: 'File Upload',
       icon: Upload,
-      description: 'Upload CSV/PDF files',
+      description: 'Upload documents and data',
+    },
+    {
+      id: 'documents',
+      label: 'Documents',
+      icon: Library,
+      description: 'Knowledge base',
     },
     {
       id: 'config',
@@ -62,7 +89,7 @@ export const Sidebar = ({ activeTab, onTabChange }: SidebarProps) => {
     {
       label: 'Documents',
       icon: FileText,
-      status: '0 processed',
+      status: documentCount === null ? 'loading' : `${documentCount} processed`,
     },
   ];
 
@@ -14,30 +14,213 @@ export type Database = {
   }
   public: {
     Tables: {
+      collections: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      document_row_errors: {
+        Row: {
+          created_at: string | null
+          document_id: string
+          id: number
+          problem: string
+          raw_line: string
+          row_number: number
+          skipped: boolean
+          table_name: string
+        }
+        Insert: {
+          created_at?: string | null
+          document_id: string
+          id?: never
+          problem: string
+          raw_line: string
+          row_number: number
+          skipped?: boolean
+          table_name: string
+        }
+        Update: {
+          created_at?: string | null
+          document_id?: string
+          id?: never
+          problem?: string
+          raw_line?: string
+          row_number?: number
+          skipped?: boolean
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_row_errors_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_table_rows: {
+        Row: {
+          data: Json
+          document_id: string
+          id: number
+          raw: Json
+          row_number: number
+          table_id: string
+        }
+        Insert: {
+          data: Json
+          document_id: string
+          id?: never
+          raw: Json
+          row_number: number
+          table_id: string
+        }
+        Update: {
+          data?: Json
+          document_id?: string
+          id?: never
+          raw?: Json
+          row_number?: number
+          table_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_table_rows_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_table_rows_table_id_fkey"
+            columns: ["table_id"]
+            isOneToOne: false
+            referencedRelation: "document_tables"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_tables: {
+        Row: {
+          columns: Json
+          created_at: string | null
+          document_id: string
+          id: string
+          name: string
+          row_count: number
+        }
+        Insert: {
+          columns: Json
+          created_at?: string | null
+          document_id: string
+          id?: string
+          name: string
+          row_count?: number
+        }
+        Update: {
+          columns?: Json
+          created_at?: string | null
+          document_id?: string
+          id?: string
+          name?: string
+          row_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_tables_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
+          collection_id: string | null
           content: string
+          content_hash: string | null
           created_at: string | null
+          document_key: string
           id: string
+          is_current: boolean
           metadata: Json | null
           name: string
           type: string
+          version: number
         }
         Insert: {
+          collection_id?: string | null
           content: string
+          content_hash?: string | null
           created_at?: string | null
+          document_key: string
           id?: string
+          is_current?: boolean
           metadata?: Json | null
           name: string
           type: string
+          version?: number
         }
         Update: {
+          collection_id?: string | null
           content?: string
+          content_hash?: string | null
           created_at?: string | null
+          document_key?: string
           id?: string
+          is_current?: boolean
           metadata?: Json | null
           name?: string
           type?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "documents_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      embedding_settings: {
+        Row: {
+          dimensions: number
+          id: boolean
+          model: string
+          updated_at: string | null
+        }
+        Insert: {
+          dimensions: number
+          id?: boolean
+          model: string
+          updated_at?: string | null
+        }
+        Update: {
+          dimensions?: number
+          id?: boolean
+          model?: string
+          updated_at?: string | null
         }
         Relationships: []
       }
@@ -49,6 +232,9 @@ export type Database = {
           embedding: string | null
           id: string
           metadata: Json | null
+          model: string
+          pending_embedding: string | null
+          pending_model: string | null
         }
         Insert: {
           content: string
@@ -57,6 +243,9 @@ export type Database = {
           embedding?: string | null
           id?: string
           metadata?: Json | null
+          model: string
+          pending_embedding?: string | null
+          pending_model?: string | null
         }
         Update: {
           content?: string
@@ -65,6 +254,9 @@ export type Database = {
           embedding?: string | null
           id?: string
           metadata?: Json | null
+          model?: string
+          pending_embedding?: string | null
+          pending_model?: string | null
         }
         Relationships: [
           {
@@ -76,15 +268,216 @@ export type Database = {
           },
         ]
       }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          chunking: Json | null
+          chunks: Json | null
+          content_hash: string | null
+          created_at: string | null
+          document_id: string | null
+          error: string | null
+          failed_chunk_indexes: number[]
+          file_name: string
+          file_size: number | null
+          file_type: string
+          file_url: string
+          id: string
+          locked_until: string | null
+          ocr_page_count: number
+          ocr_pages: number[]
+          options: Json
+          processed_chunks: number
+          row_error_count: number
+          sections: Json | null
+          status: string
+          total_chunks: number
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          chunking?: Json | null
+          chunks?: Json | null
+          content_hash?: string | null
+          created_at?: string | null
+          document_id?: string | null
+          error?: string | null
+          failed_chunk_indexes?: number[]
+          file_name: string
+          file_size: number | null
+          file_type: string
+          file_url: string
+          id?: string
+          locked_until?: string | null
+          ocr_page_count?: number
+          ocr_pages?: number[]
+          options?: Json
+          processed_chunks?: number
+          row_error_count?: number
+          sections?: Json | null
+          status?: string
+          total_chunks?: number
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          chunking?: Json | null
+          chunks?: Json | null
+          content_hash?: string | null
+          created_at?: string | null
+          document_id?: string | null
+          error?: string | null
+          failed_chunk_indexes?: number[]
+          file_name?: string
+          file_size?: number | null
+          file_type?: string
+          file_url?: string
+          id?: string
+          locked_until?: string | null
+          ocr_page_count?: number
+          ocr_pages?: number[]
+          options?: Json
+          processed_chunks?: number
+          row_error_count?: number
+          sections?: Json | null
+          status?: string
+          total_chunks?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reembedding_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          dimensions: number
+          error: string | null
+          id: string
+          locked_until: string | null
+          model: string
+          previous_dimensions: number
+          previous_model: string
+          processed_chunks: number
+          status: string
+          total_chunks: number
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          dimensions: number
+          error?: string | null
+          id?: string
+          locked_until?: string | null
+          model: string
+          previous_dimensions: number
+          previous_model: string
+          processed_chunks?: number
+          status?: string
+          total_chunks?: number
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          dimensions?: number
+          error?: string | null
+          id?: string
+          locked_until?: string | null
+          model?: string
+          previous_dimensions?: number
+          previous_model?: string
+          processed_chunks?: number
+          status?: string
+          total_chunks?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      document_library: {
+        Row: {
+          chunk_count: number | null
+          collection_id: string | null
+          collection_name: string | null
+          content_hash: string | null
+          created_at: string | null
+          document_key: string | null
+          file_size: number | null
+          id: string | null
+          ingestion_error: string | null
+          ingestion_status: string | null
+          is_current: boolean | null
+          job_id: string | null
+          metadata: Json | null
+          name: string | null
+          type: string | null
+          version: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      claim_ingestion_job: {
+        Args: { lock_seconds?: number }
+        Returns: {
+          attempts: number
+          chunking: Json | null
+          chunks: Json | null
+          content_hash: string | null
+          created_at: string | null
+          document_id: string | null
+          error: string | null
+          failed_chunk_indexes: number[]
+          file_name: string
+          file_size: number | null
+          file_type: string
+          file_url: string
+          id: string
+          locked_until: string | null
+          options: Json
+          processed_chunks: number
+          sections: Json | null
+          status: string
+          total_chunks: number
+          updated_at: string | null
+        }[]
+      }
+      claim_reembedding_job: {
+        Args: { lock_seconds?: number }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          dimensions: number
+          error: string | null
+          id: string
+          locked_until: string | null
+          model: string
+          previous_dimensions: number
+          previous_model: string
+          processed_chunks: number
+          status: string
+          total_chunks: number
+          updated_at: string | null
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -139,16 +532,25 @@ export type Database = {
       }
       match_documents: {
         Args: {
+          collection_ids?: string[]
+          include_superseded?: boolean
           match_count: number
           match_threshold: number
+          metadata_filter?: Json
           query_embedding: string
         }
         Returns: {
           content: string
+          document_id: string
           id: string
+          metadata: Json
           similarity: number
         }[]
       }
+      set_current_document_version: {
+        Args: { target_id: string }
+        Returns: undefined
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -161,6 +563,33 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      start_reembedding: {
+        Args: { target_dimensions: number; target_model: string }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          dimensions: number
+          error: string | null
+          id: string
+          locked_until: string | null
+          model: string
+          previous_dimensions: number
+          previous_model: string
+          processed_chunks: number
+          status: string
+          total_chunks: number
+          updated_at: string | null
+        }[]
+      }
+      store_pending_embeddings: {
+        Args: { chunks: Json; target_model: string }
+        Returns: undefined
+      }
+      switch_embedding_model: {
+        Args: { target_job_id: string }
+        Returns: boolean
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -0,0 +1,54 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Tags written to documents.metadata.tags at ingest (supabase/functions/_shared/tagging.ts)
+export interface DocumentTags {
+  category: string;
+  reporting_periods: string[];
+  states: string[];
+  cities: string[];
+  product_lines: string[];
+  competitors: string[];
+}
+
+export const categoryLabels: Record<string, string> = {
+  sales_report: 'Sales report',
+  market_research: 'Market research',
+  competitor_analysis: 'Competitor analysis',
+  financial: 'Financial',
+  product: 'Product',
+  pricing: 'Pricing',
+  dealer_network: 'Dealer network',
+  strategy: 'Strategy',
+  other: 'Other',
+};
+
+export const productLines = [
+  'Vida V1 Pro',
+  'Vida V1 Plus',
+  'Vida V2 Pro',
+  'Vida V2 Plus',
+  'Vida V2 Lite',
+  'Vida VX2',
+];
+
+// Documents ingested before tagging have none
+export const documentTags = (metadata: Json | null): DocumentTags | null => {
+  const tags = metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata.tags : null;
+  return tags && typeof tags === 'object' && !Array.isArray(tags) ? (tags as unknown as DocumentTags) : null;
+};
+
+// Free-form tags the user added at upload
+export const userTags = (metadata: Json | null): string[] => {
+  const tags = metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata.user_tags : null;
+  return Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [];
+};
+
+// Periods, places, products and competitors in one line, e.g. "FY25 · Kerala · Vida V1 Pro"
+export const tagSummary = (tags: DocumentTags): string =>
+  [
+    ...tags.reporting_periods,
+    ...tags.states,
+    ...tags.cities,
+    ...tags.product_lines,
+    ...tags.competitors,
+  ].join(' · ');
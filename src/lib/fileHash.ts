@@ -0,0 +1,16 @@
+import { createSHA256 } from 'hash-wasm';
+
+// SHA-256 of an uploaded file, as hex, matching documents.content_hash
+// (supabase/functions/_shared/documents.ts). Web Crypto can only digest a whole
+// buffer, so the file is read piece by piece over file.slice() and fed to an
+// incremental hasher instead of being read into memory at once.
+
+const PIECE_SIZE = 4 * 1024 * 1024;
+
+export const hashFile = async (file: Blob): Promise<string> => {
+  const hasher = await createSHA256();
+  for (let start = 0; start < file.size; start += PIECE_SIZE) {
+    hasher.update(new Uint8Array(await file.slice(start, start + PIECE_SIZE).arrayBuffer()));
+  }
+  return hasher.digest('hex');
+};
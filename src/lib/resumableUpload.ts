@@ -0,0 +1,195 @@
+import { SUPABASE_PUBLISHABLE_KEY, SUPABASE_URL, supabase } from '@/integrations/supabase/client';
+
+// Client for Supabase Storage's TUS endpoint. The file goes up in fixed-size chunks;
+// after a dropped connection, a pause or even a page reload, the server is asked how
+// many bytes it already has and the upload continues from there.
+
+const ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+const BUCKET = 'documents';
+// Supabase only accepts 6MB chunks (the last one may be shorter)
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+// Upload URLs expire after a day on the server
+const UPLOAD_URL_TTL_MS = 23 * 60 * 60 * 1000;
+const STORAGE_KEY_PREFIX = 'resumable-upload:';
+
+// Files above this go through the resumable endpoint; smaller ones are a single request
+export const RESUMABLE_THRESHOLD_BYTES = CHUNK_SIZE;
+
+export class UploadPausedError extends Error {
+  constructor() {
+    super('Upload paused');
+  }
+}
+
+class UploadExpiredError extends Error {}
+
+interface StoredUpload {
+  uploadUrl: string;
+  objectName: string;
+  createdAt: number;
+}
+
+export interface ResumableUploadOptions {
+  // Aborting pauses the upload; call uploadResumable again with the same file to continue
+  signal?: AbortSignal;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+// Uploads the file and resolves with the storage path it was stored under. A file
+// partly uploaded earlier keeps the path it was first given.
+export async function uploadResumable(file: File, objectName: string, options: ResumableUploadOptions = {}): Promise<string> {
+  const storageKey = STORAGE_KEY_PREFIX + fingerprint(file);
+  let stored = loadStoredUpload(storageKey);
+
+  for (;;) {
+    if (!stored) {
+      stored = { uploadUrl: await createUpload(file, objectName), objectName, createdAt: Date.now() };
+      localStorage.setItem(storageKey, JSON.stringify(stored));
+    }
+
+    try {
+      await sendChunks(file, stored.uploadUrl, options);
+      localStorage.removeItem(storageKey);
+      return stored.objectName;
+    } catch (error) {
+      if (!(error instanceof UploadExpiredError)) throw error;
+      // The server dropped the partial upload; start again from zero
+      localStorage.removeItem(storageKey);
+      stored = null;
+    }
+  }
+}
+
+// Forgets a partial upload, e.g. when the user removes the file
+export function discardResumableUpload(file: File) {
+  localStorage.removeItem(STORAGE_KEY_PREFIX + fingerprint(file));
+}
+
+function fingerprint(file: File): string {
+  return [file.name, file.size, file.lastModified, file.type].join(':');
+}
+
+function loadStoredUpload(storageKey: string): StoredUpload | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null') as StoredUpload | null;
+    return stored && Date.now() - stored.createdAt < UPLOAD_URL_TTL_MS ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return {
+    apikey: SUPABASE_PUBLISHABLE_KEY,
+    authorization: `Bearer ${data.session?.access_token ?? SUPABASE_PUBLISHABLE_KEY}`,
+    'tus-resumable': '1.0.0',
+  };
+}
+
+async function createUpload(file: File, objectName: string): Promise<string> {
+  const metadata = {
+    bucketName: BUCKET,
+    objectName,
+    contentType: file.type || 'application/octet-stream',
+    cacheControl: '3600',
+  };
+
+  const response = await fetch(ENDPOINT, {
+    method: 'POST',
+    headers: {
+      ...await authHeaders(),
+      'upload-length': String(file.size),
+      'upload-metadata': Object.entries(metadata)
+        .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+        .join(','),
+    },
+  });
+
+  const location = response.headers.get('location');
+  if (!response.ok || !location) {
+    throw new Error(`Could not start upload (${response.status}): ${await response.text()}`);
+  }
+  return new URL(location, ENDPOINT).toString();
+}
+
+async function sendChunks(file: File, uploadUrl: string, options: ResumableUploadOptions) {
+  let offset = await serverOffset(uploadUrl);
+  let failures = 0;
+  let offsetKnown = true;
+  options.onProgress?.(offset, file.size);
+
+  while (offset < file.size) {
+    if (options.signal?.aborted) throw new UploadPausedError();
+
+    try {
+      // Part of a failed chunk may have landed before the connection dropped
+      if (!offsetKnown) {
+        offset = await serverOffset(uploadUrl);
+        offsetKnown = true;
+      }
+      offset = await sendChunk(file, uploadUrl, offset, options);
+      failures = 0;
+    } catch (error) {
+      if (error instanceof UploadPausedError || error instanceof UploadExpiredError) throw error;
+      if (++failures >= MAX_CHUNK_ATTEMPTS) throw error;
+
+      const delay = BASE_DELAY_MS * 2 ** (failures - 1);
+      console.log(`${error.message} - retrying upload in ${delay}ms (attempt ${failures}/${MAX_CHUNK_ATTEMPTS})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      offsetKnown = false;
+    }
+  }
+}
+
+async function serverOffset(uploadUrl: string): Promise<number> {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers: await authHeaders() });
+  if (response.status === 404 || response.status === 410) {
+    throw new UploadExpiredError('Upload expired');
+  }
+  if (!response.ok) {
+    throw new Error(`Could not check upload progress (${response.status})`);
+  }
+  return Number(response.headers.get('upload-offset') ?? 0);
+}
+
+// XMLHttpRequest rather than fetch: it reports bytes sent within the chunk
+async function sendChunk(file: File, uploadUrl: string, offset: number, options: ResumableUploadOptions): Promise<number> {
+  const headers = await authHeaders();
+  const chunk = file.slice(offset, offset + CHUNK_SIZE);
+
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('PATCH', uploadUrl);
+    Object.entries({ ...headers, 'upload-offset': String(offset), 'content-type': 'application/offset+octet-stream' })
+      .forEach(([name, value]) => request.setRequestHeader(name, value));
+
+    const abort = () => request.abort();
+    options.signal?.addEventListener('abort', abort, { once: true });
+    const settle = () => options.signal?.removeEventListener('abort', abort);
+
+    request.upload.onprogress = (event) => options.onProgress?.(offset + event.loaded, file.size);
+    request.onload = () => {
+      settle();
+      if (request.status === 404 || request.status === 410) {
+        reject(new UploadExpiredError('Upload expired'));
+      } else if (request.status >= 200 && request.status < 300) {
+        resolve(Number(request.getResponseHeader('upload-offset') ?? offset + chunk.size));
+      } else {
+        reject(new Error(`Upload chunk failed (${request.status}): ${request.responseText}`));
+      }
+    };
+    request.onerror = () => {
+      settle();
+      reject(new Error('Network error during upload'));
+    };
+    request.onabort = () => {
+      settle();
+      reject(new UploadPausedError());
+    };
+
+    request.send(chunk);
+  });
+}
@@ -0,0 +1,62 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Rows a CSV or sheet could not ingest cleanly, recorded in document_row_errors at
+// ingest (supabase/functions/_shared/ingestion.ts). Downloaded as a CSV that opens
+// directly in Excel.
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Summary written to documents.metadata.row_errors
+export interface RowErrorSummary {
+  rows: number;
+  skipped: number;
+}
+
+export const rowErrorSummary = (metadata: unknown): RowErrorSummary | null => {
+  const summary = metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? (metadata as { row_errors?: RowErrorSummary }).row_errors
+    : null;
+  return summary && summary.rows > 0 ? summary : null;
+};
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const downloadRowErrorReport = async (documentId: string, fileName: string) => {
+  const lines = [['Table', 'Row', 'Problem', 'Left out', 'Raw line'].join(',')];
+
+  for (let start = 0; ; start += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('document_row_errors')
+      .select('table_name, row_number, problem, raw_line, skipped')
+      .eq('document_id', documentId)
+      .order('id')
+      .range(start, start + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load the error report: ${error.message}`);
+    }
+
+    lines.push(...data.map(rowError => [
+      rowError.table_name,
+      rowError.row_number,
+      rowError.problem,
+      rowError.skipped ? 'yes' : 'no',
+      rowError.raw_line,
+    ].map(csvField).join(',')));
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  // The byte order mark makes Excel read the report as UTF-8
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName.replace(/\.[^.]+$/, '')}-row-errors.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
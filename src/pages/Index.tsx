@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { Sidebar } from '@/components/Sidebar';
 import { ChatInterface } from '@/components/ChatInterface';
 import { FileUploader } from '@/components/FileUploader';
+import { DocumentLibrary } from '@/components/DocumentLibrary';
 import { ConfigPanel } from '@/components/ConfigPanel';
 import { AnalyticsDashboard } from '@/components/AnalyticsDashboard';
 
@@ -36,6 +37,8 @@ const Index = () => {
         return <ChatInterface onSendMessage={handleSendMessage} />;
       case 'upload':
         return <FileUploader onFilesUploaded={handleFilesUploaded} />;
+      case 'documents':
+        return <DocumentLibrary />;
       case 'config':
         return <ConfigPanel onConfigSave={handleConfigSave} />;
       case 'analytics':
@@ -0,0 +1,102 @@
+import { unzipSync } from 'https://esm.sh/fflate@0.8.2';
+
+// ZIP packs (e.g. a research agency's monthly delivery) are expanded into their
+// files, each of which is ingested as a document of its own.
+
+export const ARCHIVE_TYPES = ['application/zip', 'application/x-zip-compressed'];
+
+// Larger entries would not fit in the worker's memory once extracted
+const MAX_ENTRY_BYTES = 200 * 1024 * 1024;
+const MAX_ENTRIES = 500;
+
+// Archives carry no reliable MIME types, so entries are typed by extension
+const ENTRY_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+};
+
+export interface ArchiveEntry {
+  // Full path inside the archive
+  path: string;
+  // File name without folders, used as the document name
+  name: string;
+  size: number;
+  // Null for file types that cannot be ingested
+  type: string | null;
+  // Why the entry will not be ingested
+  skipReason?: string;
+}
+
+export function isArchive(fileType: string, fileName: string): boolean {
+  return ARCHIVE_TYPES.includes(fileType) || /\.zip$/i.test(fileName);
+}
+
+// Lists the archive's files without inflating any of them. Folders and the
+// metadata macOS and Windows add to archives are left out entirely.
+export function listArchive(data: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+
+  try {
+    unzipSync(data, {
+      filter: file => {
+        const name = file.name.split('/').pop() ?? '';
+        if (file.name.endsWith('/') || file.name.startsWith('__MACOSX/') || name.startsWith('.') || name === 'Thumbs.db') {
+          return false;
+        }
+
+        const type = ENTRY_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+        entries.push({
+          path: file.name,
+          name,
+          size: file.originalSize,
+          type,
+          skipReason: /\.zip$/i.test(name)
+            ? 'Archives inside archives are not expanded'
+            : !type
+              ? 'Unsupported file type'
+              : file.originalSize === 0
+                ? 'Empty file'
+                : file.originalSize > MAX_ENTRY_BYTES
+                  ? 'File is too large to ingest'
+                  : undefined,
+        });
+        return false;
+      },
+    });
+  } catch (error) {
+    throw new Error(`Invalid ZIP archive: ${error.message}`);
+  }
+
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`Archive has ${entries.length} files; at most ${MAX_ENTRIES} can be expanded at once`);
+  }
+  return entries;
+}
+
+// Where an entry is stored under the archive's upload folder. Entry paths are
+// written by whoever made the archive, so "..", "." and empty segments and a
+// leading "/" are dropped to keep "../../x" or "/x" inside the folder.
+export function entryStoragePath(folder: string, path: string): string {
+  const segments = path.split(/[\\/]+/).filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+  return [folder, ...segments].join('/');
+}
+
+// Inflates a single entry, so only one extracted file is held in memory at a time
+export function readArchiveEntry(data: Uint8Array, path: string): Uint8Array {
+  const files = unzipSync(data, { filter: file => file.name === path });
+  const entry = files[path];
+  if (!entry) {
+    throw new Error(`Archive entry not found: ${path}`);
+  }
+  return entry;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { chunkSection, estimateTokens, resolveChunkingOptions, type ChunkingOptions } from './chunking.ts';
+
+const chunk = (text: string, options: Partial<ChunkingOptions>, metadata: Record<string, unknown> = {}) =>
+  chunkSection({ text, metadata }, { strategy: 'semantic', maxTokens: 512, overlapTokens: 0, ...options });
+
+describe('resolveChunkingOptions', () => {
+  it.each([
+    [undefined, { strategy: 'heading', maxTokens: 512, overlapTokens: 64 }],
+    [{ strategy: 'fixed' as const, maxTokens: 300, overlapTokens: 30 }, { strategy: 'fixed', maxTokens: 300, overlapTokens: 30 }],
+    [{ maxTokens: 10 }, { strategy: 'heading', maxTokens: 32, overlapTokens: 16 }],
+    [{ maxTokens: 99999, overlapTokens: -5 }, { strategy: 'heading', maxTokens: 2048, overlapTokens: 0 }],
+    [{ maxTokens: 100, overlapTokens: 90 }, { strategy: 'heading', maxTokens: 100, overlapTokens: 50 }],
+    [{ strategy: 'unknown' as never }, { strategy: 'heading', maxTokens: 512, overlapTokens: 64 }],
+  ])('resolves %j', (requested, expected) => {
+    expect(resolveChunkingOptions(requested, 'heading')).toEqual(expected);
+  });
+});
+
+describe('heading strategy', () => {
+  it('starts a chunk at every heading and records the heading path', () => {
+    const chunks = chunk('INTRODUCTION\n\n1.1 Scope\nThe study covers Pune.\n\nPricing Model\nPrices rose.', { strategy: 'heading' });
+    expect(chunks.map(({ content, metadata }) => [content, metadata.heading])).toEqual([
+      ['INTRODUCTION > 1.1 Scope\nThe study covers Pune.', 'INTRODUCTION > 1.1 Scope'],
+      ['Pricing Model\nPrices rose.', 'Pricing Model'],
+    ]);
+  });
+
+  it('keeps text before the first heading without one', () => {
+    const chunks = chunk('Preface text.\n\nSUMMARY\nAll good.', { strategy: 'heading' });
+    expect(chunks.map(({ content, metadata }) => [content, metadata.heading])).toEqual([
+      ['Preface text.', undefined],
+      ['SUMMARY\nAll good.', 'SUMMARY'],
+    ]);
+  });
+
+  it('does not repeat a heading that has nothing under it', () => {
+    const chunks = chunk('Some body.\nFINAL NOTES', { strategy: 'heading' });
+    expect(chunks.map(({ content, metadata }) => [content, metadata.heading])).toEqual([
+      ['Some body.', undefined],
+      ['FINAL NOTES', undefined],
+    ]);
+  });
+
+  it.each([
+    'This sentence ends with a period.',
+    'A line that is far too long to be a heading because it keeps on going well past the limit',
+    'a lowercase line',
+  ])('does not take %j for a heading', line => {
+    expect(chunk(`${line}\nBody.`, { strategy: 'heading' })[0].metadata.heading).toBeUndefined();
+  });
+});
+
+describe('semantic strategy', () => {
+  const paragraphs = Array.from({ length: 12 }, (_, i) => `Paragraph ${i} ${'word '.repeat(40).trim()}.`);
+
+  it('packs whole paragraphs up to the token limit', () => {
+    const chunks = chunk(paragraphs.join('\n\n'), { maxTokens: 120 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const { content, metadata } of chunks) {
+      expect(metadata.token_count).toBeLessThanOrEqual(120);
+      expect(content.split('\n').every(line => paragraphs.includes(line))).toBe(true);
+    }
+  });
+
+  it('repeats trailing paragraphs as overlap', () => {
+    const chunks = chunk(paragraphs.join('\n\n'), { maxTokens: 120, overlapTokens: 60 });
+    const [first, second] = chunks.map(({ content }) => content.split('\n'));
+    expect(second[0]).toBe(first[first.length - 1]);
+  });
+
+  it('splits an oversized paragraph by sentence, then by word', () => {
+    const sentences = Array.from({ length: 6 }, (_, i) => `Sentence ${i} ${'x'.repeat(100)}.`).join(' ');
+    const longWordRun = 'word '.repeat(400).trim();
+    for (const text of [sentences, longWordRun]) {
+      const chunks = chunk(text, { maxTokens: 64 });
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(({ metadata }) => Number(metadata.token_count) <= 64)).toBe(true);
+    }
+  });
+
+  it('repeats the section context in every chunk within the limit', () => {
+    const chunks = chunkSection(
+      { text: paragraphs.join('\n\n'), metadata: { slide: 3 }, context: 'Slide 3: Market size' },
+      { strategy: 'semantic', maxTokens: 120, overlapTokens: 0 }
+    );
+    for (const { content, metadata } of chunks) {
+      expect(content.startsWith('Slide 3: Market size\n')).toBe(true);
+      expect(metadata.slide).toBe(3);
+      expect(metadata.token_count).toBe(estimateTokens(content));
+    }
+  });
+});
+
+describe('chunk metadata', () => {
+  it('records amounts and dates mentioned in the chunk', () => {
+    const [{ metadata }] = chunk('Sales reached 45 L units by 15/01/2024.', {});
+    expect(metadata.amounts).toEqual([{ text: '45 L units', value: 4500000 }]);
+    expect(metadata.dates).toEqual([{ text: '15/01/2024', value: '2024-01-15' }]);
+  });
+
+  it('keeps atomic sections whole', () => {
+    const text = 'id,text\n' + Array.from({ length: 50 }, (_, i) => `${i},row`).join('\n');
+    const chunks = chunkSection({ text, metadata: { row_start: 2 }, atomic: true }, { strategy: 'rows', maxTokens: 32, overlapTokens: 0 });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toBe(text);
+  });
+});
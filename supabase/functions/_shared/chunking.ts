@@ -0,0 +1,209 @@
+import { findMentions } from './normalize.ts';
+import type { ExtractedSection } from './types.ts';
+
+// text-embedding-004 accepts at most 2048 input tokens per text
+export const EMBEDDING_MAX_INPUT_TOKENS = 2048;
+
+// rows:     sections are pre-grouped table rows (CSV, sheets) and kept as-is
+// heading:  paragraph packing that starts a new chunk at every detected heading
+// semantic: paragraph, then sentence, packing up to the token limit
+// fixed:    plain word windows, the original behaviour
+export type ChunkingStrategy = 'rows' | 'heading' | 'semantic' | 'fixed';
+
+export interface ChunkingOptions {
+  strategy: ChunkingStrategy;
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export interface Chunk {
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+export const DEFAULT_CHUNKING: Omit<ChunkingOptions, 'strategy'> = {
+  maxTokens: 512,
+  overlapTokens: 64,
+};
+
+const STRATEGIES: ChunkingStrategy[] = ['rows', 'heading', 'semantic', 'fixed'];
+
+export function resolveChunkingOptions(
+  requested: Partial<ChunkingOptions> | undefined,
+  defaultStrategy: ChunkingStrategy
+): ChunkingOptions {
+  const strategy = requested?.strategy && STRATEGIES.includes(requested.strategy)
+    ? requested.strategy
+    : defaultStrategy;
+  const maxTokens = Math.min(
+    Math.max(Math.floor(requested?.maxTokens ?? DEFAULT_CHUNKING.maxTokens), 32),
+    EMBEDDING_MAX_INPUT_TOKENS
+  );
+  const overlapTokens = Math.min(
+    Math.max(Math.floor(requested?.overlapTokens ?? DEFAULT_CHUNKING.overlapTokens), 0),
+    Math.floor(maxTokens / 2)
+  );
+
+  return { strategy, maxTokens, overlapTokens };
+}
+
+// Gemini has no local tokenizer; ~4 characters per token is Google's published estimate
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function chunkSection(section: ExtractedSection, requested: ChunkingOptions): Chunk[] {
+  const context = section.context ? `${section.context}\n` : '';
+  const build = (body: string, extra: Record<string, unknown> = {}): Chunk => {
+    const content = context + body;
+    return {
+      content,
+      // Table row groups already carry their normalized rows
+      metadata: {
+        ...section.metadata,
+        ...extra,
+        ...(section.metadata.rows ? {} : mentionMetadata(content)),
+        token_count: estimateTokens(content),
+      },
+    };
+  };
+
+  if (section.atomic) {
+    return [build(section.text)];
+  }
+
+  // Leave room for the context line every chunk repeats
+  const options = { ...requested, maxTokens: Math.max(requested.maxTokens - estimateTokens(context), 32) };
+
+  switch (options.strategy) {
+    case 'fixed':
+      return packUnits(splitWords(section.text), options, ' ').map(content => build(content));
+    case 'heading':
+      return splitByHeadings(section.text).flatMap(({ heading, body }) => {
+        const headingTokens = heading ? estimateTokens(heading) + 1 : 0;
+        const bodyOptions = { ...options, maxTokens: Math.max(options.maxTokens - headingTokens, 32) };
+        return packUnits(semanticUnits(body, bodyOptions.maxTokens), bodyOptions, '\n').map(content =>
+          heading ? build(`${heading}\n${content}`, { heading }) : build(content)
+        );
+      });
+    case 'rows':
+    case 'semantic':
+    default:
+      return packUnits(semanticUnits(section.text, options.maxTokens), options, '\n').map(content =>
+        build(content)
+      );
+  }
+}
+
+// Amounts and dates in the chunk, normalized, with the text they were read from
+function mentionMetadata(content: string): Record<string, unknown> {
+  const { amounts, dates } = findMentions(content);
+  return {
+    ...(amounts.length > 0 ? { amounts } : {}),
+    ...(dates.length > 0 ? { dates } : {}),
+  };
+}
+
+// Paragraphs, falling back to sentences and then words for oversized pieces
+function semanticUnits(text: string, maxTokens: number): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+    .flatMap(paragraph => {
+      if (estimateTokens(paragraph) <= maxTokens) return [paragraph];
+      return paragraph
+        .split(/(?<=[.!?;])\s+/)
+        .flatMap(sentence =>
+          estimateTokens(sentence) <= maxTokens ? [sentence] : packUnits(splitWords(sentence), { maxTokens, overlapTokens: 0 }, ' ')
+        );
+    });
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(word => word.length > 0);
+}
+
+// Greedily packs units up to maxTokens, seeding each new chunk with the
+// trailing units of the previous one so boundary-straddling facts survive.
+// Sizes are measured on the joined text, separators included.
+function packUnits(
+  units: string[],
+  options: Pick<ChunkingOptions, 'maxTokens' | 'overlapTokens'>,
+  separator: string
+): string[] {
+  const tokens = (chars: number) => Math.ceil(chars / CHARS_PER_TOKEN);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+  let freshUnits = 0;
+
+  for (const unit of units) {
+    if (freshUnits > 0 && tokens(currentChars + separator.length + unit.length) > options.maxTokens) {
+      chunks.push(current.join(separator));
+
+      const overlap: string[] = [];
+      let overlapChars = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const chars = overlapChars + current[i].length + (overlap.length > 0 ? separator.length : 0);
+        if (tokens(chars) > options.overlapTokens || tokens(chars + separator.length + unit.length) > options.maxTokens) break;
+        overlap.unshift(current[i]);
+        overlapChars = chars;
+      }
+
+      current = overlap;
+      currentChars = overlapChars;
+      freshUnits = 0;
+    }
+
+    currentChars += (current.length > 0 ? separator.length : 0) + unit.length;
+    current.push(unit);
+    freshUnits++;
+  }
+
+  if (freshUnits > 0) {
+    chunks.push(current.join(separator));
+  }
+
+  return chunks;
+}
+
+// A heading is a short standalone line without sentence punctuation: numbered
+// ("3.2 Pricing"), ALL CAPS, or Title Case.
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (trimmed.length < 3 || trimmed.length > 80 || /[.,;:]$/.test(trimmed)) return false;
+  if (/^(\d+(\.\d+)*\.?|[IVX]+\.)\s+\S/.test(trimmed)) return true;
+  if (/[a-z]/i.test(trimmed) && trimmed === trimmed.toUpperCase()) return true;
+
+  const words = trimmed.split(/\s+/);
+  return words.length <= 8 && words.every(word => /^[A-Z0-9&(]/.test(word) || /^(of|and|the|in|for|to|vs|a)$/.test(word));
+}
+
+function splitByHeadings(text: string): Array<{ heading?: string; body: string }> {
+  const blocks: Array<{ heading?: string; lines: string[] }> = [{ lines: [] }];
+
+  for (const line of text.split('\n')) {
+    const last = blocks[blocks.length - 1];
+    if (isHeading(line)) {
+      // Consecutive headings (chapter then section) share one block
+      if (last.heading && last.lines.every(bodyLine => bodyLine.trim() === '')) {
+        last.heading = `${last.heading} > ${line.trim()}`;
+      } else {
+        blocks.push({ heading: line.trim(), lines: [] });
+      }
+    } else {
+      last.lines.push(line);
+    }
+  }
+
+  return blocks.flatMap(({ heading, lines }) => {
+    const body = lines.join('\n').trim();
+    if (body) return [{ heading, body }];
+    // A heading with nothing under it becomes plain text rather than being
+    // repeated as both heading and body
+    return heading ? [{ body: heading }] : [];
+  });
+}
@@ -0,0 +1,162 @@
+import type { SupabaseClient } from './supabase.ts';
+
+export function hashContent(bytes: BufferSource): Promise<string> {
+  return crypto.subtle.digest('SHA-256', bytes).then(digest =>
+    Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+  );
+}
+
+// Removes a document's embeddings, its ingestion jobs (whose staging columns hold
+// its text), its row and the original file in storage. If it was the current
+// version, the newest remaining version whose ingestion finished takes over.
+//
+// options.keepJobId spares the job that is cleaning up after its own failed step,
+// so the failure stays visible in ingestion-status.
+export async function deleteDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  options: { keepJobId?: string } = {}
+): Promise<void> {
+  const { data: document, error: loadError } = await supabase
+    .from('documents')
+    .select('id, document_key, is_current, metadata')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Failed to load document: ${loadError.message}`);
+  }
+  if (!document) return;
+
+  // Promoted before anything is removed, so a failure leaves the document as it was
+  if (document.is_current) {
+    const previousId = await latestFinishedVersion(supabase, document.document_key, documentId);
+    if (previousId) {
+      const { error: versionError } = await supabase.rpc('set_current_document_version', { target_id: previousId });
+      if (versionError) {
+        throw new Error(`Failed to make the previous version current: ${versionError.message}`);
+      }
+    }
+  }
+
+  // Deleting the jobs first stops the worker; an in-flight step can no longer
+  // insert embeddings once the document row is gone (foreign key)
+  let jobQuery = supabase
+    .from('ingestion_jobs')
+    .delete()
+    .eq('document_id', documentId);
+  if (options.keepJobId) {
+    jobQuery = jobQuery.neq('id', options.keepJobId);
+  }
+  const { error: jobError } = await jobQuery;
+
+  if (jobError) {
+    throw new Error(`Failed to delete ingestion jobs: ${jobError.message}`);
+  }
+
+  const { error: embeddingError } = await supabase
+    .from('embeddings')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (embeddingError) {
+    throw new Error(`Failed to delete embeddings: ${embeddingError.message}`);
+  }
+
+  const { error: docError } = await supabase
+    .from('documents')
+    .delete()
+    .eq('id', documentId);
+
+  if (docError) {
+    throw new Error(`Failed to delete document: ${docError.message}`);
+  }
+
+  await removeStoredFile(supabase, document.metadata?.originalUrl);
+}
+
+// Newest version of a document with complete embeddings. As with rollback, a
+// version whose ingestion is still running or failed is never made current.
+async function latestFinishedVersion(
+  supabase: SupabaseClient,
+  documentKey: string,
+  excludeId: string
+): Promise<string | null> {
+  const { data: versions, error } = await supabase
+    .from('documents')
+    .select('id')
+    .eq('document_key', documentKey)
+    .neq('id', excludeId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load document versions: ${error.message}`);
+  }
+  if (versions.length === 0) return null;
+
+  const { data: pendingJobs, error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .select('document_id')
+    .in('document_id', versions.map(version => version.id))
+    .neq('status', 'done');
+
+  if (jobError) {
+    throw new Error(`Failed to load ingestion jobs: ${jobError.message}`);
+  }
+
+  const unfinished = new Set(pendingJobs.map(job => job.document_id));
+  return versions.find(version => !unfinished.has(version.id))?.id ?? null;
+}
+
+// Cancels and removes an ingestion job together with everything it produced
+export async function deleteJob(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const { data: job, error: loadError } = await supabase
+    .from('ingestion_jobs')
+    .select('id, document_id, file_url')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (loadError) {
+    throw new Error(`Failed to load ingestion job: ${loadError.message}`);
+  }
+  if (!job) return;
+
+  if (job.document_id) {
+    await deleteDocument(supabase, job.document_id);
+  }
+
+  const { error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .delete()
+    .eq('id', jobId);
+
+  if (jobError) {
+    throw new Error(`Failed to delete ingestion job: ${jobError.message}`);
+  }
+
+  await removeStoredFile(supabase, job.file_url);
+}
+
+// Re-ingested versions share the stored file with the version they replace,
+// so the file is only removed once nothing refers to it any more
+async function removeStoredFile(supabase: SupabaseClient, fileUrl: string | undefined): Promise<void> {
+  if (!fileUrl) return;
+
+  const [{ count: documentCount }, { count: jobCount }] = await Promise.all([
+    supabase
+      .from('documents')
+      .select('id', { count: 'exact', head: true })
+      .eq('metadata->>originalUrl', fileUrl),
+    supabase
+      .from('ingestion_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('file_url', fileUrl),
+  ]);
+
+  if (documentCount || jobCount) return;
+
+  const { error: storageError } = await supabase.storage.from('documents').remove([fileUrl]);
+  if (storageError) {
+    console.error('Storage delete error:', storageError);
+  }
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from './supabase.ts';
+
+// batchEmbedContents accepts up to 100 texts per request
+export const EMBEDDING_BATCH_SIZE = 100;
+const CONCURRENCY = 4;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+
+// The model every chunk is embedded with, switched by a re-embedding job
+export interface EmbeddingModel {
+  model: string;
+  dimensions: number;
+}
+
+export interface EmbeddingBatchResult {
+  // One entry per input text, null where embedding failed
+  vectors: Array<number[] | null>;
+  failedIndexes: number[];
+}
+
+class RetryableError extends Error {}
+
+export async function activeEmbeddingModel(supabase: SupabaseClient): Promise<EmbeddingModel> {
+  const { data, error } = await supabase
+    .from('embedding_settings')
+    .select('model, dimensions')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load embedding settings: ${error.message}`);
+  }
+  return data;
+}
+
+export async function embedTexts(texts: string[], apiKey: string, model: EmbeddingModel): Promise<EmbeddingBatchResult> {
+  const vectors: Array<number[] | null> = new Array(texts.length).fill(null);
+  const batches: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    batches.push(Array.from({ length: Math.min(EMBEDDING_BATCH_SIZE, texts.length - start) }, (_, i) => start + i));
+  }
+
+  // Bounded worker pool: each worker pulls the next pending batch
+  let nextBatch = 0;
+  const worker = async () => {
+    while (nextBatch < batches.length) {
+      const indexes = batches[nextBatch++];
+      try {
+        const values = await withRetry(() => requestBatch(indexes.map(i => texts[i]), apiKey, model));
+        indexes.forEach((textIndex, i) => {
+          vectors[textIndex] = values[i] ?? null;
+        });
+      } catch (error) {
+        console.error(`Embedding batch starting at chunk ${indexes[0]} failed:`, error);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, batches.length) }, worker));
+
+  const failedIndexes = vectors.flatMap((vector, i) => (vector ? [] : [i]));
+  return { vectors, failedIndexes };
+}
+
+// Single text, e.g. a chat question; failures throw rather than being reported per text
+export async function embedText(text: string, apiKey: string, model: EmbeddingModel): Promise<number[]> {
+  const [vector] = await withRetry(() => requestBatch([text], apiKey, model));
+  if (!vector) {
+    throw new Error(`No embedding returned by ${model.model}`);
+  }
+  return vector;
+}
+
+async function requestBatch(texts: string[], apiKey: string, model: EmbeddingModel): Promise<Array<number[] | undefined>> {
+  let response: Response;
+  try {
+    response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model.model}:batchEmbedContents?key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: texts.map(text => ({
+            model: `models/${model.model}`,
+            content: { parts: [{ text }] },
+            outputDimensionality: model.dimensions
+          }))
+        })
+      }
+    );
+  } catch (error) {
+    throw new RetryableError(`Network error: ${error.message}`);
+  }
+
+  if (!response.ok) {
+    const message = `Embedding API error ${response.status}: ${await response.text()}`;
+    if (response.status === 429 || response.status >= 500) {
+      throw new RetryableError(message);
+    }
+    throw new Error(message);
+  }
+
+  const result = await response.json();
+  const vectors: Array<number[] | undefined> = (result.embeddings ?? []).map((embedding: { values?: number[] }) => embedding?.values);
+
+  // Models without configurable output size ignore outputDimensionality
+  const wrongSize = vectors.find(vector => vector && vector.length !== model.dimensions);
+  if (wrongSize) {
+    throw new Error(`${model.model} returned ${wrongSize.length}-dimensional vectors, expected ${model.dimensions}`);
+  }
+  return vectors;
+}
+
+// Exponential backoff with jitter on rate limits, server errors and network failures
+async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof RetryableError) || attempt >= MAX_ATTEMPTS) throw error;
+      const delay = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.5 + Math.random());
+      console.log(`${error.message} - retrying in ${Math.round(delay)}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
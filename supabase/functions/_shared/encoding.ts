@@ -0,0 +1,63 @@
+// Character encodings uploaded text files arrive in. Excel on Windows saves CSVs
+// as Windows-1252 ("CSV (Comma delimited)") or UTF-16 LE with a BOM ("Unicode Text").
+export const TEXT_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252'] as const;
+
+export type TextEncodingName = typeof TEXT_ENCODINGS[number];
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+  // How the encoding was chosen: byte order mark, content sniffing, or the user
+  source: 'bom' | 'detected' | 'override';
+}
+
+export function isTextEncoding(value: unknown): value is TextEncodingName {
+  return TEXT_ENCODINGS.includes(value as TextEncodingName);
+}
+
+export function decodeText(bytes: Uint8Array, override?: TextEncodingName): DecodedText {
+  const bom = detectBom(bytes);
+
+  if (override) {
+    // A BOM for the chosen encoding is still not part of the text
+    const skip = bom?.encoding === override ? bom.length : 0;
+    return { text: new TextDecoder(override).decode(bytes.subarray(skip)), encoding: override, source: 'override' };
+  }
+  if (bom) {
+    return { text: new TextDecoder(bom.encoding).decode(bytes.subarray(bom.length)), encoding: bom.encoding, source: 'bom' };
+  }
+
+  const encoding = sniffEncoding(bytes);
+  return { text: new TextDecoder(encoding).decode(bytes), encoding, source: 'detected' };
+}
+
+function detectBom(bytes: Uint8Array): { encoding: TextEncodingName; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', length: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 };
+  return null;
+}
+
+// Without a BOM: mostly-ASCII UTF-16 shows as zero bytes in every other position;
+// otherwise text that is not valid UTF-8 is taken to be Windows-1252
+function sniffEncoding(bytes: Uint8Array): TextEncodingName {
+  const sample = bytes.subarray(0, 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = sample.length / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros < oddZeros / 10) return 'utf-16le';
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros < evenZeros / 10) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
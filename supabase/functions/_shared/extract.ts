@@ -0,0 +1,81 @@
+import type { TextEncodingName } from './encoding.ts';
+import { extractCsv } from './extractors/csv.ts';
+import { extractDocx } from './extractors/docx.ts';
+import { extractHtml } from './extractors/html.ts';
+import { extractJson } from './extractors/json.ts';
+import { extractMarkdown } from './extractors/markdown.ts';
+import { extractPdf } from './extractors/pdf.ts';
+import { extractPptx } from './extractors/pptx.ts';
+import { extractPlainText } from './extractors/text.ts';
+import { extractWorkbook } from './extractors/workbook.ts';
+import type { Extraction, ExtractionSample } from './types.ts';
+
+const WORKBOOK_TYPES = [
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// Browsers on Windows report .csv files as application/vnd.ms-excel, so legacy
+// .xls workbooks are told apart by extension. Markdown is often reported as
+// plain text, so it is recognised by extension as well.
+//
+// options.encoding overrides the character encoding detected for CSVs;
+// options.maxPages and options.maxRows limit how much of a PDF or workbook is read.
+export async function extractFile(
+  fileData: Blob,
+  fileName: string,
+  fileType: string,
+  options: { encoding?: TextEncodingName; maxPages?: number; maxRows?: number } = {}
+): Promise<Extraction> {
+  if (isCsv(fileType, fileName)) {
+    return await extractCsv(fileData, fileName, options.encoding);
+  }
+  if (WORKBOOK_TYPES.includes(fileType)) {
+    return await extractWorkbook(fileData, { maxRows: options.maxRows });
+  }
+  if (fileType === 'application/pdf') {
+    return await extractPdf(fileData, { maxPages: options.maxPages });
+  }
+  if (fileType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    return await extractDocx(fileData);
+  }
+  if (fileType === 'application/vnd.openxmlformats-officedocument.presentationml.presentation') {
+    return await extractPptx(fileData);
+  }
+
+  if (
+    fileType === 'text/markdown' ||
+    fileType === 'text/x-markdown' ||
+    (fileType === 'text/plain' && /\.(md|markdown)$/i.test(fileName))
+  ) {
+    return await extractMarkdown(fileData);
+  }
+  if (fileType === 'text/plain') {
+    return await extractPlainText(fileData);
+  }
+  if (fileType === 'text/html') {
+    return await extractHtml(fileData);
+  }
+  if (fileType === 'application/json') {
+    return await extractJson(fileData);
+  }
+
+  throw new Error(`Unsupported file type: ${fileType}`);
+}
+
+// How a preview can read just part of a file: the first bytes of CSV, plain text,
+// Markdown and HTML (which still extract when cut after any line), the first
+// pages of a PDF or rows of a workbook. Null for formats that must be read whole.
+export function sampleUnit(fileType: string, fileName: string): ExtractionSample['unit'] | null {
+  if (isCsv(fileType, fileName) || ['text/plain', 'text/markdown', 'text/x-markdown', 'text/html'].includes(fileType)) {
+    return 'bytes';
+  }
+  if (fileType === 'application/pdf') return 'pages';
+  if (WORKBOOK_TYPES.includes(fileType)) return 'rows';
+  return null;
+}
+
+function isCsv(fileType: string, fileName: string): boolean {
+  return fileType === 'text/csv' ||
+    (fileType === 'application/vnd.ms-excel' && /\.csv$/i.test(fileName));
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { extractCsv } from './csv.ts';
+
+const csvFile = (text: string) => new Blob([text]);
+
+describe('extractCsv', () => {
+  it('leaves out rows with the wrong number of columns and reports them', async () => {
+    const extraction = await extractCsv(csvFile('City,Units\nPune,10\nMumbai,20,extra\nDelhi\nChennai,30,,\n'), 'sales.csv');
+
+    expect(extraction.metadata?.rowCount).toBe(2);
+    expect(extraction.rowErrors).toEqual([
+      { table: 'sales.csv', row: 3, problem: 'Expected 2 columns, found 3', raw: 'Mumbai,20,extra', skipped: true },
+      { table: 'sales.csv', row: 4, problem: 'Expected 2 columns, found 1', raw: 'Delhi', skipped: true },
+    ]);
+  });
+
+  it('keeps rows with unreadable values and reports them', async () => {
+    const rows = Array.from({ length: 10 }, (_, i) => `Pune,${i + 1}`);
+    const extraction = await extractCsv(csvFile(['City,Units', ...rows, 'Delhi,lots'].join('\n')), 'sales.csv');
+
+    expect(extraction.metadata?.rowCount).toBe(11);
+    expect(extraction.rowErrors).toEqual([
+      { table: 'sales.csv', row: 12, problem: 'Units: "lots" is not a whole number', raw: 'Delhi,lots', skipped: false },
+    ]);
+  });
+
+  it('numbers rows by record, so quoted newlines do not shift them', async () => {
+    const extraction = await extractCsv(csvFile('Name,Note\n"A","two\nlines"\nB,bad,row\n'), 'notes.csv');
+    expect(extraction.rowErrors?.map(rowError => rowError.row)).toEqual([3]);
+  });
+
+  it('fails when every data row is malformed', async () => {
+    await expect(extractCsv(csvFile('a,b\n1\n2\n'), 'broken.csv')).rejects.toThrow(
+      'All 2 data rows are malformed; row 2: Expected 2 columns, found 1'
+    );
+  });
+
+  it.each([
+    ['UTF-8 with a BOM', new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('City\n₹ Pune\n')]), 'utf-8', 'bom'],
+    ['Windows-1252', new Uint8Array([...new TextEncoder().encode('City\nS'), 0xe3, ...new TextEncoder().encode('o Paulo\n')]), 'windows-1252', 'detected'],
+  ])('reads %s', async (_, bytes, encoding, source) => {
+    const extraction = await extractCsv(new Blob([bytes]), 'cities.csv');
+    expect(extraction.metadata).toMatchObject({ columns: ['City'], encoding, encodingSource: source });
+  });
+
+  it('reads tab-separated UTF-16 exports', async () => {
+    const text = '﻿City\tUnits\nPune\t10\n';
+    const bytes = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2] = text.charCodeAt(i) & 0xff;
+      bytes[i * 2 + 1] = text.charCodeAt(i) >> 8;
+    }
+    const extraction = await extractCsv(new Blob([bytes]), 'export.csv');
+    expect(extraction.metadata).toMatchObject({ columns: ['City', 'Units'], rowCount: 1, encoding: 'utf-16le' });
+  });
+});
@@ -0,0 +1,75 @@
+import { decodeText, type TextEncodingName } from '../encoding.ts';
+import { attachRowValues, inferTable, valueErrors } from '../schema.ts';
+import { parseCsvRecords, rowSections, type TableRow } from '../tabular.ts';
+import type { Extraction, RowError } from '../types.ts';
+
+// Longest raw line kept in an error report
+const MAX_RAW_LINE_CHARS = 2000;
+
+export async function extractCsv(fileData: Blob, fileName: string, encoding?: TextEncodingName): Promise<Extraction> {
+  // Windows Excel exports are often not UTF-8; encoding overrides the detection
+  const decoded = decodeText(new Uint8Array(await fileData.arrayBuffer()), encoding);
+  const text = decoded.text;
+  // Excel's UTF-16 "Unicode Text" export separates fields with tabs
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+
+  // Row numbers count records (header is row 1), so quoted newlines don't skew them
+  const rows: TableRow[] = parseCsvRecords(text, delimiter)
+    .map((record, index) => ({ rowNumber: index + 1, cells: record.cells.map(cell => cell.trim()), raw: record.raw }))
+    .filter(row => row.cells.some(cell => cell !== ''));
+
+  if (rows.length === 0) {
+    throw new Error('CSV file contains no rows');
+  }
+
+  const [header, ...candidateRows] = rows;
+  const rowErrors: RowError[] = [];
+  const rowError = (row: TableRow, problem: string, skipped: boolean): RowError => ({
+    table: fileName,
+    row: row.rowNumber,
+    problem,
+    raw: (row.raw ?? '').slice(0, MAX_RAW_LINE_CHARS),
+    skipped,
+  });
+
+  // A row with more or fewer fields than the header (a stray comma, an unclosed
+  // quote) cannot be matched to its columns, so it is left out and reported.
+  // Empty trailing fields are only padding.
+  const width = header.cells.length;
+  const dataRows = candidateRows.flatMap(row => {
+    const cells = row.cells.length > width && row.cells.slice(width).every(cell => cell === '')
+      ? row.cells.slice(0, width)
+      : row.cells;
+    if (cells.length !== width) {
+      rowErrors.push(rowError(row, `Expected ${width} columns, found ${cells.length}`, true));
+      return [];
+    }
+    return [{ ...row, cells }];
+  });
+
+  if (candidateRows.length > 0 && dataRows.length === 0) {
+    throw new Error(`All ${candidateRows.length} data rows are malformed; row ${rowErrors[0].row}: ${rowErrors[0].problem}`);
+  }
+
+  const table = inferTable(fileName, header, dataRows);
+  const rawRows = new Map(dataRows.map(row => [row.rowNumber, row]));
+  for (const { rowNumber, problem } of valueErrors(table)) {
+    rowErrors.push(rowError(rawRows.get(rowNumber)!, problem, false));
+  }
+  rowErrors.sort((a, b) => a.row - b.row);
+
+  return {
+    sections: attachRowValues(rowSections(header, dataRows), table),
+    content: text,
+    defaultStrategy: 'rows',
+    metadata: {
+      columns: header.cells,
+      rowCount: dataRows.length,
+      encoding: decoded.encoding,
+      encodingSource: decoded.source,
+    },
+    tables: [table],
+    rowErrors,
+  };
+}
@@ -0,0 +1,71 @@
+import { attribute, elements, readPackage, requirePart, runText, tableRows } from '../ooxml.ts';
+import { outlineSections, type OutlineBlock } from '../outline.ts';
+import type { Extraction } from '../types.ts';
+
+// Word marks headings explicitly through paragraph styles, so sections follow
+// the document's own outline.
+export async function extractDocx(fileData: Blob): Promise<Extraction> {
+  const pkg = await readPackage(fileData);
+  const body = requirePart(pkg, 'word/document.xml');
+  const headingStyles = readHeadingStyles(pkg.get('word/styles.xml') ?? '');
+  const blocks: OutlineBlock[] = [];
+
+  for (const block of elements(body, 'w:tbl', 'w:p')) {
+    if (block.startsWith('<w:tbl')) {
+      // Each row is its own paragraph so chunks break between rows
+      blocks.push(...tableRows(block, 'w:tr', 'w:tc', 'w:p').map(text => ({ text })));
+      continue;
+    }
+
+    const text = runText(block);
+    const headingLevel = paragraphHeadingLevel(block, headingStyles);
+    blocks.push({ text: block.includes('<w:numPr') && headingLevel === null ? `• ${text}` : text, headingLevel });
+  }
+
+  const sections = outlineSections(blocks);
+  const headingCount = blocks.filter(block => typeof block.headingLevel === 'number' && block.text).length;
+  console.log('DOCX sections:', sections.length, 'headings:', headingCount);
+
+  if (sections.length === 0) {
+    throw new Error('No extractable text found in Word document');
+  }
+
+  return {
+    sections,
+    content: blocks.map(block => block.text).filter(Boolean).join('\n\n'),
+    defaultStrategy: 'semantic',
+    metadata: { headings: headingCount },
+  };
+}
+
+// Style id -> outline level. Ids are localised ("Überschrift1"), so the level comes
+// from the built-in style name or the style's own outline level.
+function readHeadingStyles(stylesXml: string): Map<string, number> {
+  const levels = new Map<string, number>();
+
+  for (const style of elements(stylesXml, 'w:style')) {
+    const id = attribute(style.slice(0, style.indexOf('>') + 1), 'w:styleId');
+    if (!id) continue;
+
+    const name = attribute(style.match(/<w:name\b[^>]*>/)?.[0] ?? '', 'w:val')?.toLowerCase() ?? '';
+    const heading = name.match(/^heading (\d)$/);
+    const level = heading ? Number(heading[1]) : name === 'title' ? 0 : outlineLevel(style);
+    if (level !== null) levels.set(id, level);
+  }
+  return levels;
+}
+
+function paragraphHeadingLevel(paragraph: string, headingStyles: Map<string, number>): number | null {
+  const direct = outlineLevel(paragraph);
+  if (direct !== null) return direct;
+
+  const styleId = attribute(paragraph.match(/<w:pStyle\b[^>]*>/)?.[0] ?? '', 'w:val');
+  return styleId !== undefined ? headingStyles.get(styleId) ?? null : null;
+}
+
+// w:outlineLvl is 0-based and 9 means body text
+function outlineLevel(xml: string): number | null {
+  const value = attribute(xml.match(/<w:outlineLvl\b[^>]*>/)?.[0] ?? '', 'w:val');
+  const level = value !== undefined ? Number(value) : NaN;
+  return level >= 0 && level < 9 ? level + 1 : null;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { extractHtml } from './html.ts';
+
+const bodyText = async (body: string) =>
+  (await extractHtml(new Blob([`<html><body><p>${body}</p></body></html>`]))).sections.map(section => section.text).join('\n\n');
+
+describe('extractHtml', () => {
+  it.each([
+    ['&amp; &lt;b&gt; &rupee;5 &nbsp;x', '& <b> ₹5 x'],
+    ['&#65;&#x42;&#128512;', 'AB😀'],
+    ['&unknown; stays', '&unknown; stays'],
+    // Not characters: past the Unicode range, or surrogate halves
+    ['a &#x110000; b &#xD800; c &#99999999999;', 'a &#x110000; b &#xD800; c &#99999999999;'],
+  ])('decodes entities in %j', async (body, expected) => {
+    expect(await bodyText(body)).toBe(expected);
+  });
+
+  it('splits sections at headings and keeps table rows together', async () => {
+    const html = [
+      '<html><head><title>Report &amp; notes</title><style>p { color: red }</style></head><body>',
+      '<h1>Sales</h1><p>Up this year.</p>',
+      '<h2>By region</h2><table><tr><th>Region</th><th>Units</th></tr><tr><td>North</td><td>10</td></tr></table>',
+      '</body></html>',
+    ].join('');
+    const extraction = await extractHtml(new Blob([html]));
+
+    expect(extraction.metadata).toEqual({ headings: 2, title: 'Report & notes' });
+    expect(extraction.sections.map(section => section.text).join('\n')).toContain('Region | Units\n\nNorth | 10');
+    expect(extraction.sections.some(section => section.text.includes('color: red'))).toBe(false);
+  });
+});
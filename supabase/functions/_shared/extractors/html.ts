@@ -0,0 +1,89 @@
+import { outlineSections, type OutlineBlock } from '../outline.ts';
+import type { Extraction } from '../types.ts';
+
+// Marks heading blocks in the flattened text; never occurs in real content
+const HEADING_MARK = '\u0001';
+
+const BLOCK_TAGS =
+  'p|div|section|article|main|header|footer|aside|nav|blockquote|pre|ul|ol|dl|dt|dd|figure|figcaption|form|hr|address';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  hellip: '…', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+  euro: '€', pound: '£', rupee: '₹', deg: '°', times: '×', divide: '÷',
+};
+
+// Exported wiki pages and saved web pages. Markup is stripped but h1–h6 drive the
+// sections and table rows stay together as " | "-joined lines.
+export async function extractHtml(fileData: Blob): Promise<Extraction> {
+  const html = await fileData.text();
+  const title = decodeEntities(stripTags(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1] ?? '')).trim();
+
+  const blocks = htmlBlocks(html);
+  const sections = outlineSections(blocks);
+  const headingCount = blocks.filter(block => typeof block.headingLevel === 'number').length;
+  console.log('HTML sections:', sections.length, 'headings:', headingCount);
+
+  if (sections.length === 0) {
+    throw new Error('No text found in HTML file');
+  }
+
+  return {
+    sections,
+    content: blocks.map(block => block.text).join('\n\n'),
+    defaultStrategy: 'semantic',
+    metadata: { headings: headingCount, ...(title ? { title } : {}) },
+  };
+}
+
+function htmlBlocks(html: string): OutlineBlock[] {
+  const body = (html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html)
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+    // HTML collapses source whitespace; structure comes from the tags below
+    .replace(/\s+/g, ' ');
+
+  const flattened = body
+    .replace(/<table\b[\s\S]*?<\/table>/gi, table => `\n\n${tableRows(table).join('\n\n')}\n\n`)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${HEADING_MARK}${level}${stripTags(text)}\n\n`
+    )
+    .replace(/<li\b[^>]*>/gi, '\n\n• ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n');
+
+  return decodeEntities(stripTags(flattened))
+    .split(/\n\s*\n/)
+    .map(block => block.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim())
+    .filter(block => block.length > 0 && block !== '•')
+    .map(block => (block.startsWith(HEADING_MARK)
+      ? { text: block.slice(2).trim(), headingLevel: Number(block[1]) }
+      : { text: block }));
+}
+
+function tableRows(table: string): string[] {
+  return [...table.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)]
+    .map(([, row]) =>
+      [...row.matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)]
+        .map(([, cell]) => stripTags(cell).trim())
+        .join(' | ')
+    )
+    .filter(line => line.replace(/[|\s]/g, '').length > 0);
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      // Codes past the Unicode range or in the surrogate block are not characters
+      const valid = Number.isFinite(code) && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return valid ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,88 @@
+import type { ExtractedSection, Extraction } from '../types.ts';
+
+// Rough size of a group of top-level entries; matches the table row groups
+const MAX_SECTION_CHARS = 2000;
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+// API dumps and exports. Every leaf value becomes a "key.path[0].field: value" line,
+// so a chunk states exactly where each figure sits. Lines are grouped by top-level
+// entry (object key or array element), several small entries to a section.
+export async function extractJson(fileData: Blob): Promise<Extraction> {
+  let data: JsonValue;
+  try {
+    data = JSON.parse((await fileData.text()).replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error.message}`);
+  }
+
+  const entries: Array<{ path: string; lines: string[] }> = Array.isArray(data)
+    ? data.map((value, index) => ({ path: `[${index}]`, lines: flatten(value, `[${index}]`) }))
+    : data !== null && typeof data === 'object'
+      ? Object.entries(data).map(([key, value]) => ({ path: keyPath('', key), lines: flatten(value, keyPath('', key)) }))
+      : [{ path: '', lines: flatten(data, '') }];
+
+  const sections: ExtractedSection[] = [];
+  let group: typeof entries = [];
+  let groupChars = 0;
+
+  const flush = () => {
+    if (group.length === 0) return;
+    const first = group[0].path;
+    const last = group[group.length - 1].path;
+    sections.push({
+      // Blank lines keep each key path a separate unit for the chunker
+      text: group.flatMap(entry => entry.lines).join('\n\n'),
+      metadata: first === last ? { json_path: first } : { json_path: first, json_path_end: last },
+    });
+    group = [];
+    groupChars = 0;
+  };
+
+  for (const entry of entries) {
+    const chars = entry.lines.reduce((total, line) => total + line.length + 1, 0);
+    if (group.length > 0 && groupChars + chars > MAX_SECTION_CHARS) flush();
+    group.push(entry);
+    groupChars += chars;
+  }
+  flush();
+
+  const lineCount = entries.reduce((total, entry) => total + entry.lines.length, 0);
+  console.log('JSON entries:', entries.length, 'values:', lineCount);
+
+  if (lineCount === 0) {
+    throw new Error('No values found in JSON file');
+  }
+
+  return {
+    sections,
+    content: entries.flatMap(entry => entry.lines).join('\n'),
+    defaultStrategy: 'semantic',
+    metadata: { entries: entries.length, values: lineCount },
+  };
+}
+
+function flatten(value: JsonValue, path: string): string[] {
+  if (Array.isArray(value)) {
+    return value.length === 0
+      ? [`${path}: []`]
+      : value.flatMap((item, index) => flatten(item, `${path}[${index}]`));
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value);
+    return keys.length === 0
+      ? [`${path}: {}`]
+      : keys.flatMap(key => flatten(value[key], keyPath(path, key)));
+  }
+  if (typeof value === 'string' && value.trim() === '') {
+    return [];
+  }
+  return [`${path || '(root)'}: ${value === null ? 'null' : String(value)}`];
+}
+
+function keyPath(parent: string, key: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return parent ? `${parent}.${key}` : key;
+  }
+  return `${parent}[${JSON.stringify(key)}]`;
+}
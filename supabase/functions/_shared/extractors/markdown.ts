@@ -0,0 +1,124 @@
+import { outlineSections, type OutlineBlock } from '../outline.ts';
+import type { Extraction } from '../types.ts';
+
+const FENCE = /^ {0,3}(```|~~~)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+/;
+
+export async function extractMarkdown(fileData: Blob): Promise<Extraction> {
+  const markdown = (await fileData.text())
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    // YAML front matter is page settings, not content
+    .replace(/^---\n[\s\S]*?\n---\n/, '');
+
+  const blocks = markdownBlocks(markdown);
+  const sections = outlineSections(blocks);
+  const headingCount = blocks.filter(block => typeof block.headingLevel === 'number').length;
+  console.log('Markdown sections:', sections.length, 'headings:', headingCount);
+
+  if (sections.length === 0) {
+    throw new Error('No text found in Markdown file');
+  }
+
+  return {
+    sections,
+    content: blocks.map(block => block.text).join('\n\n'),
+    defaultStrategy: 'semantic',
+    metadata: { headings: headingCount },
+  };
+}
+
+// Headings, paragraphs, list items, table rows and code blocks, with inline markup removed
+function markdownBlocks(markdown: string): OutlineBlock[] {
+  const blocks: OutlineBlock[] = [];
+  let paragraph: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ text: inlineText(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    // Code is kept verbatim; a "#" inside it is not a heading
+    if (fence) {
+      if (line.trim().startsWith(fence)) {
+        blocks.push({ text: paragraph.join('\n') });
+        paragraph = [];
+        fence = null;
+      } else {
+        paragraph.push(line);
+      }
+      continue;
+    }
+
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ text: inlineText(heading[2]), headingLevel: heading[1].length });
+      continue;
+    }
+
+    // "Title" underlined with === or --- on the next line
+    const underline = line.match(SETEXT_UNDERLINE);
+    if (underline && paragraph.length === 1) {
+      blocks.push({ text: inlineText(paragraph[0]), headingLevel: underline[1].startsWith('=') ? 1 : 2 });
+      paragraph = [];
+      continue;
+    }
+
+    if (line.trim() === '' || SETEXT_UNDERLINE.test(line)) {
+      flush();
+      continue;
+    }
+
+    // Each table row and list item is its own block so chunks break between them
+    if (line.includes('|') && line.trim().startsWith('|')) {
+      flush();
+      if (!TABLE_DIVIDER.test(line)) {
+        const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => inlineText(cell.trim()));
+        blocks.push({ text: cells.join(' | ') });
+      }
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flush();
+      paragraph.push(`• ${line.replace(LIST_ITEM, '')}`);
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  if (fence) {
+    blocks.push({ text: paragraph.join('\n') });
+  } else {
+    flush();
+  }
+
+  return blocks;
+}
+
+function inlineText(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[\s(])[*_](\S(?:.*?\S)?)[*_](?=[\s).,;:!?]|$)/g, '$1$2')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
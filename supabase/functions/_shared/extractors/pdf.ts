@@ -0,0 +1,187 @@
+import { getDocumentProxy, getResolvedPDFJS } from 'https://esm.sh/unpdf@0.12.1';
+import { findTables, layoutLines } from '../layout.ts';
+import { recognizeImage, type RgbaImage } from '../ocr.ts';
+import { rowSections } from '../tabular.ts';
+import type { ExtractedSection, Extraction } from '../types.ts';
+
+// A text layer thinner than this (a stray page number, a scanner's stamp) means the
+// page is a scanned image
+const MIN_TEXT_LAYER_CHARS = 10;
+
+// pdf.js image kinds
+const GRAYSCALE_1BPP = 1;
+const RGB_24BPP = 2;
+
+interface TextItem {
+  str: string;
+  hasEOL: boolean;
+  // [scaleX, skewY, skewX, scaleY, x, y]
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface PdfImage {
+  width: number;
+  height: number;
+  kind: number;
+  data?: Uint8ClampedArray;
+}
+
+// options.maxPages reads only the first pages, for previews of long documents
+export async function extractPdf(fileData: Blob, options: { maxPages?: number } = {}): Promise<Extraction> {
+  const pdf = await loadPdf(fileData);
+  const totalPages = pdf.numPages;
+  const readPages = Math.min(totalPages, options.maxPages ?? totalPages);
+  console.log('PDF pages:', totalPages, readPages < totalPages ? `(reading ${readPages})` : '');
+
+  const sections: ExtractedSection[] = [];
+  const scannedPages: number[] = [];
+  const tables: Array<{ page: number; table: number; header: string[]; rowCount: number }> = [];
+
+  for (let pageNumber = 1; pageNumber <= readPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const items = (await page.getTextContent()).items.filter((item: TextItem) => item.str != null) as TextItem[];
+    const pageText = items.map(item => item.str + (item.hasEOL ? '\n' : '')).join('');
+
+    if (pageText.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS) {
+      scannedPages.push(pageNumber);
+      continue;
+    }
+
+    const lines = layoutLines(items.map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      height: item.height,
+    })));
+    const pageTables = findTables(lines);
+
+    // Keep one section per page so every chunk can cite its page number; tables
+    // become row sections with the header repeated, like a CSV
+    const prose = pageTables.length > 0
+      ? lines.filter((_, i) => !pageTables.some(table => i >= table.start && i < table.end)).map(line => line.text).join('\n')
+      : pageText;
+    const text = prose.replace(/[ \t]+/g, ' ').trim();
+    if (text) {
+      sections.push({ text, metadata: { page: pageNumber } });
+    }
+
+    for (const { header, rows } of pageTables) {
+      const table = tables.length + 1;
+      sections.push(...rowSections(
+        { rowNumber: 1, cells: header },
+        rows.map((cells, i) => ({ rowNumber: i + 2, cells })),
+        { title: `Table ${table} (page ${pageNumber})`, metadata: { page: pageNumber, table } }
+      ));
+      tables.push({ page: pageNumber, table, header, rowCount: rows.length });
+    }
+  }
+
+  // Later pages may still have text when only the first ones were read
+  if (sections.length === 0 && scannedPages.length === 0 && readPages === totalPages) {
+    throw new Error(`No extractable text found in PDF (${totalPages} pages)`);
+  }
+  if (scannedPages.length > 0) {
+    console.log('Pages without a text layer:', scannedPages.length);
+  }
+  if (tables.length > 0) {
+    console.log('Tables found:', tables.length);
+  }
+
+  return {
+    sections,
+    defaultStrategy: 'heading',
+    metadata: { pages: totalPages, ...(tables.length > 0 ? { tables } : {}) },
+    ocrPages: scannedPages,
+    ...(readPages < totalPages ? { sampled: { unit: 'pages', read: readPages, total: totalPages } } : {}),
+  };
+}
+
+// Recognises the given pages from the images drawn on them. Pages where OCR finds
+// nothing (blank or purely graphical) produce no section.
+export async function ocrPdfPages(fileData: Blob, pageNumbers: number[]): Promise<ExtractedSection[]> {
+  const pdf = await loadPdf(fileData);
+  const { OPS } = await getResolvedPDFJS();
+  const sections: ExtractedSection[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    const page = await pdf.getPage(pageNumber);
+    const operators = await page.getOperatorList();
+    const texts: string[] = [];
+    const confidences: number[] = [];
+
+    for (let i = 0; i < operators.fnArray.length; i++) {
+      const op = operators.fnArray[i];
+      if (op !== OPS.paintImageXObject && op !== OPS.paintInlineImageXObject) continue;
+
+      const arg = operators.argsArray[i][0];
+      const image: PdfImage = typeof arg === 'string'
+        ? (arg.startsWith('g_') ? page.commonObjs : page.objs).get(arg)
+        : arg;
+      const rgba = toRgba(image);
+      if (!rgba) continue;
+
+      const result = await recognizeImage(rgba);
+      if (result.text) {
+        texts.push(result.text);
+        confidences.push(result.confidence);
+      }
+    }
+
+    const pageText = texts.join('\n\n').replace(/[ \t]+/g, ' ').trim();
+    console.log(`OCR page ${pageNumber}: ${pageText.length} characters`);
+    if (!pageText) continue;
+
+    sections.push({
+      text: pageText,
+      metadata: {
+        page: pageNumber,
+        ocr: true,
+        ocr_confidence: Math.round((confidences.reduce((a, b) => a + b, 0) / confidences.length) * 100) / 100,
+      },
+    });
+  }
+
+  return sections;
+}
+
+// Raw pixel data rather than ImageBitmaps, which the edge runtime cannot read back
+function loadPdf(fileData: Blob) {
+  return fileData.arrayBuffer().then(buffer =>
+    getDocumentProxy(new Uint8Array(buffer), { isOffscreenCanvasSupported: false })
+  );
+}
+
+// Tesseract takes RGBA; icons and rules too small to hold text are skipped
+function toRgba(image: PdfImage | undefined): RgbaImage | null {
+  if (!image?.data || image.width < 50 || image.height < 20) return null;
+
+  const { width, height, kind, data } = image;
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  if (kind === GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes; a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7)) ? 255 : 0;
+        const offset = (y * width + x) * 4;
+        rgba[offset] = rgba[offset + 1] = rgba[offset + 2] = value;
+        rgba[offset + 3] = 255;
+      }
+    }
+  } else if (kind === RGB_24BPP) {
+    for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+      rgba[i] = data[j];
+      rgba[i + 1] = data[j + 1];
+      rgba[i + 2] = data[j + 2];
+      rgba[i + 3] = 255;
+    }
+  } else {
+    rgba.set(data.subarray(0, rgba.length));
+  }
+
+  return { data: rgba, width, height };
+}
@@ -0,0 +1,114 @@
+import { attribute, elements, readPackage, readRelationships, requirePart, runText, tableRows } from '../ooxml.ts';
+import type { ExtractedSection, Extraction } from '../types.ts';
+
+// Slide furniture that carries no content
+const IGNORED_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'];
+
+// One section for each slide's body and one for its speaker notes. Both carry the
+// slide number and title, and every chunk is prefixed with "Slide N: Title" so a
+// retrieved bullet still says which slide it came from.
+export async function extractPptx(fileData: Blob): Promise<Extraction> {
+  const pkg = await readPackage(fileData);
+  const presentationPart = 'ppt/presentation.xml';
+  const presentation = requirePart(pkg, presentationPart);
+  const relationships = readRelationships(pkg, presentationPart);
+
+  // Slide order is the order of the slide id list, not of the part names
+  const slideParts = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(([tag]) => relationships.get(attribute(tag, 'r:id') ?? '')?.target)
+    .filter((part): part is string => part !== undefined && pkg.has(part));
+
+  const sections: ExtractedSection[] = [];
+  const contentParts: string[] = [];
+
+  slideParts.forEach((part, index) => {
+    const slide = index + 1;
+    const { title, body } = readSlide(pkg.get(part)!);
+    const notesPart = [...readRelationships(pkg, part).values()]
+      .find(rel => rel.type.endsWith('/notesSlide'))?.target;
+    const notes = notesPart && pkg.has(notesPart) ? readNotes(pkg.get(notesPart)!) : '';
+
+    const label = title ? `Slide ${slide}: ${title}` : `Slide ${slide}`;
+    const metadata = title ? { slide, slide_title: title } : { slide };
+
+    if (body) {
+      sections.push({ text: body, metadata, context: label });
+    } else if (title) {
+      // Section divider slides are just a title
+      sections.push({ text: label, metadata, atomic: true });
+    }
+    if (notes) {
+      sections.push({
+        text: notes,
+        metadata: { ...metadata, speaker_notes: true },
+        context: `${label} (speaker notes)`,
+      });
+    }
+
+    contentParts.push([label, body, notes ? `Speaker notes:\n${notes}` : ''].filter(Boolean).join('\n'));
+  });
+
+  console.log('PPTX slides:', slideParts.length);
+
+  if (sections.length === 0) {
+    throw new Error(`No extractable text found in presentation (${slideParts.length} slides)`);
+  }
+
+  return {
+    sections,
+    content: contentParts.join('\n\n'),
+    defaultStrategy: 'semantic',
+    metadata: { slides: slideParts.length },
+  };
+}
+
+function readSlide(slideXml: string): { title: string; body: string } {
+  let title = '';
+  const blocks: string[] = [];
+
+  for (const shape of elements(slideXml, 'p:sp', 'p:graphicFrame')) {
+    if (shape.startsWith('<p:graphicFrame')) {
+      const rows = tableRows(shape, 'a:tr', 'a:tc', 'a:p');
+      if (rows.length > 0) blocks.push(rows.join('\n\n'));
+      continue;
+    }
+
+    const placeholder = placeholderType(shape);
+    if (placeholder && IGNORED_PLACEHOLDERS.includes(placeholder)) continue;
+
+    const text = shapeText(shape);
+    if (!text) continue;
+
+    if ((placeholder === 'title' || placeholder === 'ctrTitle') && !title) {
+      title = text.replace(/\s*\n\s*/g, ' ');
+    } else {
+      blocks.push(text);
+    }
+  }
+
+  return { title, body: blocks.join('\n\n') };
+}
+
+// Notes pages also hold a slide image and number; only the body placeholder is the notes text
+function readNotes(notesXml: string): string {
+  return elements(notesXml, 'p:sp')
+    .filter(shape => placeholderType(shape) === 'body')
+    .map(shapeText)
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function placeholderType(shape: string): string | undefined {
+  const placeholder = shape.match(/<p:ph\b[^>]*>/)?.[0];
+  if (!placeholder) return undefined;
+  // A placeholder without a type is a body placeholder
+  return attribute(placeholder, 'type') ?? 'body';
+}
+
+// Each bullet is its own paragraph so chunks break between bullets, not inside them
+function shapeText(shape: string): string {
+  return elements(shape, 'a:p')
+    .map(runText)
+    .filter(Boolean)
+    .join('\n\n');
+}
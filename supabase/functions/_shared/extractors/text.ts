@@ -0,0 +1,17 @@
+import type { Extraction } from '../types.ts';
+
+// Plain text has no markup, so headings are detected from the text by the
+// heading chunking strategy.
+export async function extractPlainText(fileData: Blob): Promise<Extraction> {
+  const text = (await fileData.text()).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+
+  if (!text) {
+    throw new Error('No text found in file');
+  }
+
+  return {
+    sections: [{ text, metadata: {} }],
+    defaultStrategy: 'heading',
+    metadata: { lines: text.split('\n').length },
+  };
+}
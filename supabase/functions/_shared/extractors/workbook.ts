@@ -0,0 +1,83 @@
+import * as XLSX from 'https://esm.sh/xlsx@0.18.5';
+import { attachRowValues, inferTable, valueErrors, type StructuredTable } from '../schema.ts';
+import { rowSections, toCsvLine, type TableRow } from '../tabular.ts';
+import type { ExtractedSection, Extraction, RowError } from '../types.ts';
+
+// options.maxRows reads only the first rows of each sheet, for previews of large workbooks
+export async function extractWorkbook(fileData: Blob, options: { maxRows?: number } = {}): Promise<Extraction> {
+  const workbook = XLSX.read(new Uint8Array(await fileData.arrayBuffer()), {
+    type: 'array',
+    ...(options.maxRows ? { sheetRows: options.maxRows } : {}),
+  });
+  const sections: ExtractedSection[] = [];
+  const contentParts: string[] = [];
+  const sheets: Array<{ name: string; header: string[]; rowStart: number; rowEnd: number }> = [];
+  const tables: StructuredTable[] = [];
+  const rowErrors: RowError[] = [];
+  let readRows = 0;
+  let totalRows = 0;
+
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet || !sheet['!ref']) continue;
+
+    // With sheetRows, !ref covers the rows read and !fullref the whole sheet
+    readRows += rangeRows(sheet['!ref']);
+    totalRows += rangeRows(sheet['!fullref'] ?? sheet['!ref']);
+
+    // Sheet row numbers as shown in Excel (1-based, offset by the used range)
+    const firstRow = XLSX.utils.decode_range(sheet['!ref']).s.r + 1;
+    const rows: TableRow[] = (XLSX.utils.sheet_to_json(sheet, {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: true,
+    }) as string[][])
+      .map((cells, index) => ({ rowNumber: firstRow + index, cells: cells.map(cell => String(cell).trim()) }))
+      .filter(row => row.cells.some(cell => cell !== ''));
+
+    if (rows.length === 0) continue;
+
+    const [header, ...dataRows] = rows;
+    const title = `Sheet: ${sheetName}`;
+
+    sheets.push({
+      name: sheetName,
+      header: header.cells,
+      rowStart: header.rowNumber,
+      rowEnd: rows[rows.length - 1].rowNumber,
+    });
+    const table = inferTable(sheetName, header, dataRows);
+    tables.push(table);
+    // Sheets have no malformed rows, but cells can still hold unreadable values
+    const cellsByRow = new Map(dataRows.map(row => [row.rowNumber, row.cells]));
+    rowErrors.push(...valueErrors(table).map(({ rowNumber, problem }) => ({
+      table: sheetName,
+      row: rowNumber,
+      problem,
+      raw: toCsvLine(cellsByRow.get(rowNumber) ?? []),
+      skipped: false,
+    })));
+    sections.push(...attachRowValues(rowSections(header, dataRows, { title, metadata: { sheet: sheetName } }), table));
+    contentParts.push([title, ...rows.map(row => toCsvLine(row.cells))].join('\n'));
+  }
+
+  if (sections.length === 0) {
+    throw new Error('Workbook contains no non-empty sheets');
+  }
+
+  return {
+    sections,
+    content: contentParts.join('\n\n'),
+    defaultStrategy: 'rows',
+    metadata: { sheets },
+    tables,
+    rowErrors,
+    ...(readRows < totalRows ? { sampled: { unit: 'rows', read: readRows, total: totalRows } } : {}),
+  };
+}
+
+function rangeRows(ref: string): number {
+  const range = XLSX.utils.decode_range(ref);
+  return range.e.r - range.s.r + 1;
+}
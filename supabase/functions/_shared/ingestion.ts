@@ -0,0 +1,462 @@
+import { chunkSection, resolveChunkingOptions } from './chunking.ts';
+import { deleteDocument, hashContent } from './documents.ts';
+import { activeEmbeddingModel, embedTexts } from './embeddings.ts';
+import { extractFile } from './extract.ts';
+import { ocrPdfPages } from './extractors/pdf.ts';
+import type { IngestionJob } from './jobs.ts';
+import type { StructuredTable } from './schema.ts';
+import type { SupabaseClient } from './supabase.ts';
+import { tagDocument, type DocumentTags } from './tagging.ts';
+import type { ExtractedSection, RowError } from './types.ts';
+
+// Chunks embedded per worker invocation; keeps each step well inside the edge function time limit
+const EMBEDDING_STEP_SIZE = 400;
+
+// Scanned pages recognised per worker invocation; OCR takes seconds per page
+const OCR_STEP_PAGES = 3;
+
+// Structured table rows and row errors written per insert
+const TABLE_ROW_BATCH_SIZE = 1000;
+
+// Runs the work for the job's current stage and advances it to the next one.
+// Each call is one short step, so large files never hit a single-request timeout.
+export async function runIngestionStep(supabase: SupabaseClient, job: IngestionJob): Promise<void> {
+  switch (job.status) {
+    case 'queued':
+    case 'extracting':
+      return await extractStep(supabase, job);
+    case 'ocr':
+      return await ocrStep(supabase, job);
+    case 'chunking':
+      return await chunkStep(supabase, job);
+    case 'embedding':
+      return await embedStep(supabase, job);
+  }
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, changes: Partial<IngestionJob>) {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update ingestion job: ${error.message}`);
+  }
+  // The job row is deleted when the user deletes the upload mid-ingestion
+  if (data.length === 0) {
+    throw new Error('Ingestion job was cancelled');
+  }
+}
+
+async function extractStep(supabase: SupabaseClient, job: IngestionJob) {
+  await updateJob(supabase, job.id, { status: 'extracting' });
+  console.log('Extracting file:', job.file_name, job.file_type);
+
+  const fileData = await downloadFile(supabase, job.file_url);
+  const contentHash = await hashContent(await fileData.arrayBuffer());
+  const extraction = await extractFile(fileData, job.file_name, job.file_type, { encoding: job.options?.encoding });
+  const text = extraction.content ?? extraction.sections.map(section => section.text).join('\n\n');
+  console.log('Extracted text length:', text.length);
+
+  const chunking = resolveChunkingOptions(job.options?.chunking, extraction.defaultStrategy);
+  const rowErrors = extraction.rowErrors ?? [];
+  const skippedRows = rowErrors.filter(rowError => rowError.skipped).length;
+  if (rowErrors.length > 0) {
+    console.log('Rows with errors:', rowErrors.length, `(${skippedRows} left out)`);
+  }
+
+  // A retried step reuses the document created by the attempt that timed out.
+  // New versions stay non-current (unsearched) until fully embedded.
+  const { documentKey, version } = job.document_id
+    ? await existingVersion(supabase, job.document_id)
+    : await nextVersion(supabase, job);
+  const documentFields = {
+    name: job.file_name,
+    type: job.file_type,
+    content: text,
+    content_hash: contentHash,
+    document_key: documentKey,
+    version,
+    collection_id: job.options?.collectionId ?? null,
+    metadata: {
+      ...extraction.metadata,
+      chunking,
+      // Free-form tags from the uploader; metadata.tags holds the ones derived at ingest
+      ...(job.options?.tags?.length ? { user_tags: job.options.tags } : {}),
+      ...(job.options?.archive ? { archive: { name: job.options.archive.name, path: job.options.archive.path } } : {}),
+      // Ingested with problems in some rows; details in document_row_errors
+      ...(rowErrors.length > 0
+        ? { row_errors: { rows: rowErrors.length, skipped: skippedRows } }
+        : {}),
+      originalUrl: job.file_url,
+      jobId: job.id,
+      ...(job.options?.previousDocumentId ? { previousDocumentId: job.options.previousDocumentId } : {})
+    }
+  };
+  const { data: document, error: docError } = job.document_id
+    ? await supabase.from('documents').update(documentFields).eq('id', job.document_id).select().single()
+    : await supabase.from('documents').insert(documentFields).select().single();
+
+  if (docError) {
+    console.error('Document insert error:', docError);
+    throw new Error(`Failed to store document: ${docError.message}`);
+  }
+
+  const ocrPages = extraction.ocrPages ?? [];
+  try {
+    if (extraction.tables?.length) {
+      await storeTables(supabase, document.id, extraction.tables);
+    }
+    await storeRowErrors(supabase, document.id, rowErrors);
+    await updateJob(supabase, job.id, {
+      status: ocrPages.length > 0 ? 'ocr' : 'chunking',
+      document_id: document.id,
+      sections: extraction.sections,
+      ocr_pages: ocrPages,
+      ocr_page_count: ocrPages.length,
+      chunking,
+      row_error_count: rowErrors.length,
+      attempts: 0,
+    });
+  } catch (error) {
+    // Don't leave behind a document the job can no longer track; the job itself
+    // stays to record the failure (and retries with a new document)
+    await deleteDocument(supabase, document.id, { keepJobId: job.id });
+    throw error;
+  }
+}
+
+// Loads CSV/sheet data into the structured store. Tables left by an attempt that
+// timed out are replaced, not duplicated.
+async function storeTables(supabase: SupabaseClient, documentId: string, tables: StructuredTable[]) {
+  const { error: cleanupError } = await supabase
+    .from('document_tables')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (cleanupError) {
+    throw new Error(`Failed to clear structured tables: ${cleanupError.message}`);
+  }
+
+  for (const table of tables) {
+    const { data: stored, error: tableError } = await supabase
+      .from('document_tables')
+      .insert({ document_id: documentId, name: table.name, columns: table.columns, row_count: table.rows.length })
+      .select('id')
+      .single();
+
+    if (tableError) {
+      throw new Error(`Failed to store table "${table.name}": ${tableError.message}`);
+    }
+
+    for (let start = 0; start < table.rows.length; start += TABLE_ROW_BATCH_SIZE) {
+      const { error: rowError } = await supabase
+        .from('document_table_rows')
+        .insert(table.rows.slice(start, start + TABLE_ROW_BATCH_SIZE).map(row => ({
+          table_id: stored.id,
+          document_id: documentId,
+          row_number: row.rowNumber,
+          data: row.data,
+          raw: row.raw,
+        })));
+
+      if (rowError) {
+        throw new Error(`Failed to store rows of table "${table.name}": ${rowError.message}`);
+      }
+    }
+    console.log(`Stored table "${table.name}":`, table.rows.length, 'rows,', table.columns.map(column => `${column.name}:${column.type}`).join(', '));
+  }
+}
+
+// The document's error report; replaced rather than duplicated on a retried step
+async function storeRowErrors(supabase: SupabaseClient, documentId: string, rowErrors: RowError[]) {
+  const { error: cleanupError } = await supabase
+    .from('document_row_errors')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (cleanupError) {
+    throw new Error(`Failed to clear row errors: ${cleanupError.message}`);
+  }
+
+  for (let start = 0; start < rowErrors.length; start += TABLE_ROW_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('document_row_errors')
+      .insert(rowErrors.slice(start, start + TABLE_ROW_BATCH_SIZE).map(rowError => ({
+        document_id: documentId,
+        table_name: rowError.table,
+        row_number: rowError.row,
+        problem: rowError.problem,
+        raw_line: rowError.raw,
+        skipped: rowError.skipped,
+      })));
+
+    if (error) {
+      throw new Error(`Failed to store row errors: ${error.message}`);
+    }
+  }
+}
+
+async function ocrStep(supabase: SupabaseClient, job: IngestionJob) {
+  const fileData = await downloadFile(supabase, job.file_url);
+  const pages = job.ocr_pages.slice(0, OCR_STEP_PAGES);
+  const remaining = job.ocr_pages.slice(pages.length);
+  console.log('Running OCR on pages:', pages.join(', '), `(${remaining.length} left)`);
+
+  // Recognised pages slot back into page order
+  const sections = [...(job.sections ?? []), ...await ocrPdfPages(fileData, pages)]
+    .sort((a, b) => Number(a.metadata.page) - Number(b.metadata.page));
+
+  if (remaining.length === 0) {
+    await storeOcrText(supabase, job, sections);
+  }
+
+  await updateJob(supabase, job.id, {
+    status: remaining.length > 0 ? 'ocr' : 'chunking',
+    sections,
+    ocr_pages: remaining,
+    attempts: 0,
+  });
+}
+
+// The document was stored with the text layer only; add the recognised pages and
+// record which pages came from OCR so the library can flag the document
+async function storeOcrText(supabase: SupabaseClient, job: IngestionJob, sections: ExtractedSection[]) {
+  const ocrSections = sections.filter(section => section.metadata.ocr);
+  if (sections.length === 0) {
+    throw new Error(`No text found in PDF, including by OCR of ${job.ocr_page_count} scanned pages`);
+  }
+
+  const { data: document, error: loadError } = await supabase
+    .from('documents')
+    .select('metadata')
+    .eq('id', job.document_id)
+    .single();
+
+  if (loadError) {
+    throw new Error(`Failed to load document: ${loadError.message}`);
+  }
+
+  const confidences = ocrSections.map(section => Number(section.metadata.ocr_confidence));
+  const { error } = await supabase
+    .from('documents')
+    .update({
+      content: sections.map(section => section.text).join('\n\n'),
+      metadata: {
+        ...document.metadata,
+        ocr_pages: ocrSections.map(section => section.metadata.page),
+        ...(confidences.length > 0
+          ? { ocr_confidence: Math.round((confidences.reduce((a, b) => a + b, 0) / confidences.length) * 100) / 100 }
+          : {})
+      }
+    })
+    .eq('id', job.document_id);
+
+  if (error) {
+    throw new Error(`Failed to store OCR text: ${error.message}`);
+  }
+}
+
+async function chunkStep(supabase: SupabaseClient, job: IngestionJob) {
+  const sections = job.sections ?? [];
+
+  // Chunk each section separately so chunks keep their page/location metadata
+  const sectionChunks = sections.flatMap(section => chunkSection(section, job.chunking!));
+  console.log('Created chunks:', sectionChunks.length);
+
+  // A version with nothing to search must not replace the current one
+  if (sectionChunks.length === 0) {
+    throw new Error('No extractable text');
+  }
+
+  // Tagged here rather than at extraction so OCR'd pages count too
+  const tags = await tagDocument(
+    sections.map(section => section.text).join('\n\n'),
+    job.file_name,
+    Deno.env.get('GEMINI_API_KEY')
+  );
+  console.log('Document tags:', JSON.stringify(tags));
+  await storeTags(supabase, job, tags);
+
+  // Every chunk carries the document's tags so retrieval can filter on them
+  const chunks = sectionChunks.map(chunk => ({ ...chunk, metadata: { ...chunk.metadata, tags } }));
+
+  await updateJob(supabase, job.id, {
+    status: 'embedding',
+    sections: null,
+    chunks,
+    total_chunks: chunks.length,
+    processed_chunks: 0,
+    failed_chunk_indexes: [],
+    attempts: 0,
+  });
+}
+
+async function storeTags(supabase: SupabaseClient, job: IngestionJob, tags: DocumentTags) {
+  const { data: document, error: loadError } = await supabase
+    .from('documents')
+    .select('metadata')
+    .eq('id', job.document_id)
+    .single();
+
+  if (loadError) {
+    throw new Error(`Failed to load document: ${loadError.message}`);
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update({ metadata: { ...document.metadata, tags } })
+    .eq('id', job.document_id);
+
+  if (error) {
+    throw new Error(`Failed to store document tags: ${error.message}`);
+  }
+}
+
+async function embedStep(supabase: SupabaseClient, job: IngestionJob) {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured');
+  }
+
+  const chunks = job.chunks ?? [];
+  const start = job.processed_chunks;
+  const end = Math.min(start + EMBEDDING_STEP_SIZE, chunks.length);
+  const slice = chunks.slice(start, end);
+
+  // A retried step may have stored part of this slice already
+  const { error: cleanupError } = await supabase
+    .from('embeddings')
+    .delete()
+    .eq('document_id', job.document_id)
+    .gte('metadata->chunk_index', start);
+
+  if (cleanupError) {
+    throw new Error(`Failed to clear partial embeddings: ${cleanupError.message}`);
+  }
+
+  // A re-embedding job running meanwhile picks these chunks up too, and cannot switch
+  // models while this job is still embedding
+  const model = await activeEmbeddingModel(supabase);
+  const { vectors, failedIndexes } = await embedTexts(slice.map(chunk => chunk.content), apiKey, model);
+
+  // chunk_index is the position among all chunks, so gaps show which ones failed
+  const embeddings = slice.flatMap((chunk, i) => vectors[i] ? [{
+    document_id: job.document_id,
+    content: chunk.content,
+    embedding: vectors[i],
+    model: model.model,
+    metadata: { ...chunk.metadata, chunk_index: start + i }
+  }] : []);
+
+  if (embeddings.length > 0) {
+    const { error: embeddingError } = await supabase
+      .from('embeddings')
+      .insert(embeddings);
+
+    if (embeddingError) {
+      console.error('Embedding insert error:', embeddingError);
+      throw new Error(`Failed to store embeddings: ${embeddingError.message}`);
+    }
+  }
+
+  const failedChunkIndexes = [...job.failed_chunk_indexes, ...failedIndexes.map(i => start + i)];
+  const finished = end >= chunks.length;
+  console.log(`Embedded chunks ${start}-${end - 1} of ${chunks.length}, ${failedIndexes.length} failed`);
+
+  if (finished && failedChunkIndexes.length === chunks.length) {
+    throw new Error(`Failed to generate embeddings for all ${chunks.length} chunks`);
+  }
+
+  if (finished) {
+    await finishJob(supabase, job);
+  }
+
+  await updateJob(supabase, job.id, {
+    status: finished ? 'done' : 'embedding',
+    processed_chunks: end,
+    failed_chunk_indexes: failedChunkIndexes,
+    ...(finished ? { chunks: null } : {}),
+    attempts: 0,
+  });
+}
+
+async function downloadFile(supabase: SupabaseClient, fileUrl: string): Promise<Blob> {
+  const { data, error } = await supabase.storage
+    .from('documents')
+    .download(fileUrl);
+
+  if (error) {
+    console.error('Download error:', error);
+    throw new Error(`Failed to download file: ${error.message}`);
+  }
+  return data;
+}
+
+// Same file name means same logical document; a "keep both" duplicate joins the
+// document it duplicates, and a replacement takes over the replaced document's key.
+async function nextVersion(supabase: SupabaseClient, job: IngestionJob) {
+  let documentKey = documentKeyFor(job.file_name);
+  const relatedId = job.options?.previousDocumentId ?? job.options?.replaceDocumentId;
+
+  if (relatedId) {
+    const { data: related } = await supabase
+      .from('documents')
+      .select('document_key')
+      .eq('id', relatedId)
+      .maybeSingle();
+    documentKey = related?.document_key ?? documentKey;
+  }
+
+  const { data: latest, error } = await supabase
+    .from('documents')
+    .select('version')
+    .eq('document_key', documentKey)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up document versions: ${error.message}`);
+  }
+
+  return { documentKey, version: (latest?.version ?? 0) + 1 };
+}
+
+async function existingVersion(supabase: SupabaseClient, documentId: string) {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('document_key, version')
+    .eq('id', documentId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load document: ${error.message}`);
+  }
+
+  return { documentKey: data.document_key, version: data.version };
+}
+
+function documentKeyFor(fileName: string): string {
+  return fileName.trim().toLowerCase();
+}
+
+// Promotes the new version to current, then drops the document it replaces,
+// which stays searchable right up to this point.
+async function finishJob(supabase: SupabaseClient, job: IngestionJob) {
+  const { error: versionError } = await supabase.rpc('set_current_document_version', {
+    target_id: job.document_id
+  });
+
+  if (versionError) {
+    throw new Error(`Failed to publish document version: ${versionError.message}`);
+  }
+
+  const replaceDocumentId = job.options?.replaceDocumentId;
+  if (replaceDocumentId && replaceDocumentId !== job.document_id) {
+    console.log('Removing replaced document:', replaceDocumentId);
+    await deleteDocument(supabase, replaceDocumentId);
+  }
+}
@@ -0,0 +1,121 @@
+import { SUPABASE_URL, type SupabaseClient } from './supabase.ts';
+import type { ChunkingOptions, Chunk } from './chunking.ts';
+import type { TextEncodingName } from './encoding.ts';
+import type { ExtractedSection } from './types.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export type JobStatus = 'queued' | 'extracting' | 'ocr' | 'chunking' | 'embedding' | 'done' | 'failed';
+
+export interface IngestionJob {
+  id: string;
+  file_name: string;
+  file_url: string;
+  file_type: string;
+  file_size: number | null;
+  content_hash: string | null;
+  options: {
+    chunking?: Partial<ChunkingOptions>;
+    // Character encoding chosen in the upload preview, overriding detection (CSV)
+    encoding?: TextEncodingName;
+    // Set when the user chose to replace, or keep a new version of, an identical upload
+    replaceDocumentId?: string;
+    previousDocumentId?: string;
+    // Chosen by the user at upload
+    collectionId?: string;
+    tags?: string[];
+    // Set for files expanded from an uploaded ZIP archive
+    archive?: { id: string; name: string; path: string };
+  };
+  status: JobStatus;
+  document_id: string | null;
+  sections: ExtractedSection[] | null;
+  // Scanned pages still waiting for OCR, out of ocr_page_count
+  ocr_pages: number[];
+  ocr_page_count: number;
+  chunks: Chunk[] | null;
+  chunking: ChunkingOptions | null;
+  total_chunks: number;
+  processed_chunks: number;
+  failed_chunk_indexes: number[];
+  // CSV/sheet rows reported in document_row_errors
+  row_error_count: number;
+  error: string | null;
+  attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Columns returned to the uploader; staging data (sections, chunks) stays server-side
+export const JOB_STATUS_COLUMNS =
+  'id, file_name, file_type, file_size, options, status, document_id, ocr_pages, ocr_page_count, total_chunks, processed_chunks, failed_chunk_indexes, row_error_count, error, locked_until, created_at, updated_at';
+
+export type JobStatusRow = Pick<
+  IngestionJob,
+  'id' | 'file_name' | 'file_type' | 'file_size' | 'options' | 'status' | 'document_id' | 'ocr_pages' | 'ocr_page_count' |
+  'total_chunks' | 'processed_chunks' | 'failed_chunk_indexes' | 'row_error_count' | 'error' | 'locked_until' |
+  'created_at' | 'updated_at'
+>;
+
+export function isFinished(status: JobStatus): boolean {
+  return status === 'done' || status === 'failed';
+}
+
+// Overall percentage; embedding dominates the runtime so it gets the widest band
+export function jobProgress(
+  job: Pick<IngestionJob, 'status' | 'ocr_pages' | 'ocr_page_count' | 'total_chunks' | 'processed_chunks'>
+): number {
+  switch (job.status) {
+    case 'queued':
+      return 5;
+    case 'extracting':
+      return 15;
+    case 'ocr':
+      return 15 + Math.round(20 * (job.ocr_page_count > 0 ? 1 - job.ocr_pages.length / job.ocr_page_count : 0));
+    case 'chunking':
+      return 35;
+    case 'embedding':
+      return 40 + Math.round(55 * (job.total_chunks > 0 ? job.processed_chunks / job.total_chunks : 0));
+    default:
+      return 100;
+  }
+}
+
+export type NewIngestionJob = Pick<IngestionJob, 'file_name' | 'file_url' | 'file_type' | 'options'> &
+  Partial<Pick<IngestionJob, 'file_size' | 'content_hash'>>;
+
+export async function queueIngestionJob(
+  supabase: SupabaseClient,
+  job: NewIngestionJob
+): Promise<Pick<IngestionJob, 'id' | 'status'>> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert(job)
+    .select('id, status')
+    .single();
+
+  if (error) {
+    console.error('Job insert error:', error);
+    throw new Error(`Failed to queue file: ${error.message}`);
+  }
+
+  kickWorker();
+  return data;
+}
+
+// Fire-and-forget invocation of a worker; the runtime keeps the request alive after we respond
+export function kickWorker(worker = 'ingestion-worker'): void {
+  const request = fetch(`${SUPABASE_URL}/functions/v1/${worker}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''}`,
+      'Content-Type': 'application/json',
+    },
+    body: '{}',
+  }).catch(error => console.error(`Failed to start ${worker}:`, error));
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(request);
+  }
+}
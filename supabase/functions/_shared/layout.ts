@@ -0,0 +1,124 @@
+// Table detection from positioned PDF text. PDFs have no table markup: a table is
+// text laid out in aligned columns, so lines are rebuilt from item positions,
+// split into cells at wide horizontal gaps, and runs of multi-cell lines that share
+// a column structure are read back as rows.
+
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Cell {
+  text: string;
+  x: number;
+  end: number;
+}
+
+export interface LayoutLine {
+  cells: Cell[];
+  text: string;
+}
+
+export interface DetectedTable {
+  // Index range of the table's lines, end exclusive
+  start: number;
+  end: number;
+  header: string[];
+  rows: string[][];
+}
+
+// Header plus at least two data rows
+const MIN_TABLE_LINES = 3;
+// Share of a column's values that must be numbers for the column to count as numeric
+const NUMERIC_COLUMN_SHARE = 0.6;
+const NUMERIC_VALUE = /^[-+(]?\s?[₹$€£]?\s?\d[\d,]*(\.\d+)?\s?(%|x|k|m|bn|cr|crore|l|lakh|lakhs|units)?\)?$/i;
+
+// Groups items sharing a baseline into lines (top to bottom), then splits each line
+// into cells wherever the gap between items is wider than about two spaces.
+export function layoutLines(items: PositionedText[]): LayoutLine[] {
+  const sorted = items
+    .filter(item => item.text.trim() !== '')
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const rows: PositionedText[][] = [];
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(2, item.height * 0.5);
+    if (row && Math.abs(row[0].y - item.y) <= tolerance) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map(row => {
+    const cells: Cell[] = [];
+    for (const item of row.sort((a, b) => a.x - b.x)) {
+      const last = cells[cells.length - 1];
+      const gap = last ? item.x - last.end : Infinity;
+      const text = item.text.trim();
+
+      if (last && gap <= Math.max(item.height, 4) * 0.8) {
+        last.text += gap > item.height * 0.15 && !last.text.endsWith(' ') ? ` ${text}` : text;
+        last.end = Math.max(last.end, item.x + item.width);
+      } else {
+        cells.push({ text, x: item.x, end: item.x + item.width });
+      }
+    }
+    return { cells, text: cells.map(cell => cell.text).join(' ') };
+  });
+}
+
+// Runs of aligned multi-cell lines with at least one numeric column. Requiring
+// numbers keeps two-column prose layouts from being read as tables.
+export function findTables(lines: LayoutLine[]): DetectedTable[] {
+  const tables: DetectedTable[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    if (lines[start].cells.length < 2) {
+      start++;
+      continue;
+    }
+
+    let end = start;
+    while (end < lines.length && lines[end].cells.length >= 2) end++;
+
+    const table = end - start >= MIN_TABLE_LINES ? readTable(lines.slice(start, end)) : null;
+    if (table) {
+      tables.push({ start, end, ...table });
+    }
+    start = end;
+  }
+
+  return tables;
+}
+
+function readTable(lines: LayoutLine[]): Pick<DetectedTable, 'header' | 'rows'> | null {
+  // The line with the most cells defines the columns; other cells go to the
+  // column their centre falls in, which copes with right-aligned numbers
+  const template = lines.reduce((widest, line) => (line.cells.length > widest.cells.length ? line : widest));
+  const boundaries = template.cells.slice(1).map((cell, i) => (template.cells[i].end + cell.x) / 2);
+
+  const grid = lines.map(line => {
+    const cells: string[] = template.cells.map(() => '');
+    for (const cell of line.cells) {
+      const centre = (cell.x + cell.end) / 2;
+      const column = boundaries.filter(boundary => centre > boundary).length;
+      cells[column] = cells[column] ? `${cells[column]} ${cell.text}` : cell.text;
+    }
+    return cells;
+  });
+
+  const [header, ...rows] = grid;
+  const hasNumericColumn = header.some((_, column) => {
+    const values = rows.map(row => row[column]).filter(value => value !== '');
+    const numeric = values.filter(value => NUMERIC_VALUE.test(value)).length;
+    return values.length > 0 && numeric / rows.length >= NUMERIC_COLUMN_SHARE;
+  });
+
+  return hasNumericColumn ? { header, rows } : null;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { findMentions, inferDateOrders, parseDate, parseNumber } from './normalize.ts';
+
+describe('parseNumber', () => {
+  it.each([
+    ['1,234.50', { value: 1234.5, integer: false }],
+    ['12,34,567', { value: 1234567, integer: true }],
+    ['₹ 12,34,567', { value: 1234567, currency: 'INR', integer: true }],
+    ['Rs. 45,000', { value: 45000, currency: 'INR', integer: true }],
+    ['₹3.2 Cr', { value: 32000000, currency: 'INR', integer: true }],
+    ['2.5 crores', { value: 25000000, integer: true }],
+    ['45 L units', { value: 4500000, integer: true }],
+    ['3 lakh', { value: 300000, integer: true }],
+    ['7 lacs', { value: 700000, integer: true }],
+    ['$1.2 million', { value: 1200000, currency: 'USD', integer: true }],
+    ['1,200 units', { value: 1200, integer: true }],
+    ['(450)', { value: -450, integer: true }],
+    ['-12.75', { value: -12.75, integer: false }],
+    ['12%', { value: 12, integer: true }],
+    ['.5', { value: 0.5, integer: false }],
+  ])('reads %s', (raw, expected) => {
+    expect(parseNumber(raw)).toEqual({ currency: undefined, ...expected });
+  });
+
+  it.each(['', 'abc', '12 apples', '1,2,3', '12-01-2024'])('rejects %j', raw => {
+    expect(parseNumber(raw)).toBeNull();
+  });
+});
+
+describe('inferDateOrders', () => {
+  it.each([
+    [['15/01/2024', '02/03/2024'], { '/': 'dmy' }],
+    [['01/15/2024', '02/03/2024'], { '/': 'mdy' }],
+    [['15-01-2024', '01/15/2024'], { '-': 'dmy', '/': 'mdy' }],
+    [['02/03/2024', '2024-01-15'], {}],
+  ])('infers %j', (values, expected) => {
+    expect(inferDateOrders(values)).toEqual(expected);
+  });
+});
+
+describe('parseDate', () => {
+  it.each([
+    ['2024-01-15', {}, '2024-01-15'],
+    ['2024-01-15T10:30:00Z', {}, '2024-01-15'],
+    ['15/01/2024', {}, '2024-01-15'],
+    ['02/03/2024', {}, '2024-03-02'],
+    ['02/03/2024', { '/': 'mdy' }, '2024-02-03'],
+    ['15.01.24', {}, '2024-01-15'],
+    ['15 Jan 2024', {}, '2024-01-15'],
+    ['1st March, 2024', {}, '2024-03-01'],
+    ['January 15, 2024', {}, '2024-01-15'],
+    ['January 2024', {}, '2024-01'],
+    ["Mar '24", {}, '2024-03'],
+    ['2024-03', {}, '2024-03'],
+  ] as const)('reads %s with %j', (raw, orders, expected) => {
+    expect(parseDate(raw, orders)).toBe(expected);
+  });
+
+  it.each(['31/02/2024', '13/13/2024', '2024-13-01', 'Q1 2024', 'soon'])('rejects %s', raw => {
+    expect(parseDate(raw)).toBeNull();
+  });
+});
+
+describe('findMentions', () => {
+  it.each([
+    ['Sold 45 L units in Q3', [{ text: '45 L units', value: 4500000 }]],
+    ['about 45 lakh units', [{ text: '45 lakh units', value: 4500000 }]],
+    ['3 lac vehicles and 2.5 L. pcs', [{ text: '3 lac vehicles', value: 300000 }, { text: '2.5 L. pcs', value: 250000 }]],
+    ['Revenue was ₹3.2 Cr', [{ text: '₹3.2 Cr', value: 32000000, currency: 'INR' }]],
+    ['Total 12,34,567 across regions', [{ text: '12,34,567', value: 1234567 }]],
+    // A bare "L" is too common in prose to be read as lakh
+    ['Route 45 L then left', []],
+  ])('finds amounts in %j', (text, expected) => {
+    expect(findMentions(text).amounts).toEqual(expected);
+  });
+
+  it('reads dates with the order the text settles', () => {
+    expect(findMentions('Shipped 03/04/2024, invoiced 25/04/2024').dates).toEqual([
+      { text: '03/04/2024', value: '2024-04-03' },
+      { text: '25/04/2024', value: '2024-04-25' },
+    ]);
+  });
+});
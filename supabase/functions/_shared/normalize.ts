@@ -0,0 +1,199 @@
+// Reads numbers, amounts and dates the way they are written in our data: Indian
+// digit grouping ("12,34,567"), lakh/crore amounts ("₹3.2 Cr", "45 L units") and
+// day-first or month-first dates, into canonical numbers and ISO dates.
+
+export const CURRENCY_MARKERS: Array<[RegExp, string]> = [
+  [/₹|\bINR\b|\bRs\.?(?=\s|\d|$)/i, 'INR'],
+  [/\$|\bUSD\b/i, 'USD'],
+  [/€|\bEUR\b/i, 'EUR'],
+  [/£|\bGBP\b/i, 'GBP'],
+];
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  mn: 1e6,
+  million: 1e6,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+// Counted-item words accepted after a plain number, e.g. "1,200 units"
+const UNITS = ['unit', 'units', 'no', 'nos', 'pcs', 'vehicle', 'vehicles'];
+
+// 1,234,567 or 12,34,567 (lakh grouping), or no separators at all
+const DIGITS = '(?:\\d{1,3}(?:,\\d{3})+|\\d{1,2}(?:,\\d{2})+,\\d{3}|\\d+)(?:\\.\\d+)?|\\.\\d+';
+const NUMBER_PATTERN = new RegExp(`^([-+]?)(${DIGITS})\\s*(?:([a-z]+)\\.?)?(?:\\s+([a-z]+))?$`, 'i');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const NUMERIC_DATE = /^(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})$/;
+
+// Order of day and month in numeric dates, per separator: files that mix
+// "15-01-2024" and "01/15/2024" usually do so consistently by separator
+export type DateOrder = 'dmy' | 'mdy';
+export type DateOrders = Partial<Record<string, DateOrder>>;
+
+export interface ParsedNumber {
+  value: number;
+  currency?: string;
+  integer: boolean;
+}
+
+// "1,234.50", "₹ 12,34,567", "₹3.2 Cr", "45 L units", "(450)", "12%" -> numbers;
+// the currency is kept separately
+export function parseNumber(raw: string): ParsedNumber | null {
+  let text = raw.trim();
+  const currency = CURRENCY_MARKERS.find(([pattern]) => pattern.test(text))?.[1];
+  if (currency) {
+    text = CURRENCY_MARKERS.reduce((stripped, [pattern]) => stripped.replace(new RegExp(pattern, 'gi'), ''), text).trim();
+  }
+
+  // Accounting negatives
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/^\((.*)\)$/, '$1').replace(/%$/, '').replace(/\s+/g, ' ').trim();
+
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return null;
+
+  const [, sign, digits, word, unit] = match;
+  const suffix = word?.toLowerCase();
+  const scale = suffix ? SCALES[suffix] : 1;
+  // A scale may be followed by what is counted ("45 L units"); a bare number only by a unit
+  if (suffix && !scale && (unit || !UNITS.includes(suffix))) {
+    return null;
+  }
+
+  const number = Number(digits.replace(/,/g, '')) * (scale ?? 1);
+  if (!Number.isFinite(number)) return null;
+
+  // 3.2 * 1e7 is not exactly 32000000 in floating point
+  const value = Math.round(number * 100) / 100 * (negative || sign === '-' ? -1 : 1);
+  return { value, currency, integer: Number.isInteger(value) };
+}
+
+// Which order each separator's numeric dates use. A day above 12 settles it;
+// with no such evidence dates are read day-first, as written in India.
+export function inferDateOrders(values: string[]): DateOrders {
+  const orders: DateOrders = {};
+  for (const value of values) {
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match || orders[match[2]]) continue;
+    if (Number(match[1]) > 12) orders[match[2]] = 'dmy';
+    else if (Number(match[3]) > 12) orders[match[2]] = 'mdy';
+  }
+  return orders;
+}
+
+// ISO dates, numeric dates ("15/01/2024", "01/15/2024" given its order), and dates
+// or months written with a month name ("15 Jan 2024", "January 2024"). Months
+// become "YYYY-MM".
+export function parseDate(raw: string, orders: DateOrders = {}): string | null {
+  const text = raw.trim().toLowerCase();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[t\s].*)?$/);
+  if (match) {
+    return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  match = text.match(NUMERIC_DATE);
+  if (match) {
+    const [day, month] = orders[match[2]] === 'mdy' ? [match[3], match[1]] : [match[1], match[3]];
+    return isoDate(fullYear(match[4]), Number(month), Number(day));
+  }
+
+  match = text.match(new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?[\\s-]+${MONTH_NAME}[\\s,-]+(\\d{4}|\\d{2})$`));
+  if (match) {
+    return isoDate(fullYear(match[3]), monthNumber(match[2]), Number(match[1]));
+  }
+
+  match = text.match(new RegExp(`^${MONTH_NAME}[\\s-]+(\\d{1,2})(?:st|nd|rd|th)?,?[\\s-]+(\\d{4})$`));
+  if (match) {
+    return isoDate(Number(match[3]), monthNumber(match[1]), Number(match[2]));
+  }
+
+  match = text.match(new RegExp(`^${MONTH_NAME}[\\s'-]+(\\d{4}|\\d{2})$`)) ?? text.match(/^(\d{4})-(\d{1,2})$/);
+  if (match) {
+    const [year, month] = /^\d{4}$/.test(match[1])
+      ? [Number(match[1]), Number(match[2])]
+      : [fullYear(match[2]), monthNumber(match[1])];
+    return month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : null;
+  }
+
+  return null;
+}
+
+// Amounts and dates mentioned in running text
+const MAX_MENTIONS = 50;
+const AMOUNT_MENTION = new RegExp(
+  [
+    // With a currency: "₹3.2 Cr", "Rs. 45,000", "$1.2 million"
+    `(?:₹|\\bRs\\.?|\\bINR|\\$|\\bUSD|€|£)\\s?(?:${DIGITS})(?:\\s?(?:crores?|cr|lakhs?|lacs?|l|k|mn|million|bn|billion)\\b\\.?)?`,
+    // Lakh and crore figures: "45 lakh units", "3.2 Cr"; a bare "L" only before
+    // what is counted ("45 L units"), since on its own it is too common in prose
+    `\\b(?:${DIGITS})\\s?(?:(?:crores?|cr|lakhs?|lacs?)\\b\\.?(?:\\s(?:${UNITS.join('|')})\\b)?|l\\b\\.?\\s(?:${UNITS.join('|')})\\b)`,
+    // Lakh grouping alone marks an Indian figure: "12,34,567"
+    '\\b\\d{1,2}(?:,\\d{2})+,\\d{3}\\b',
+  ].join('|'),
+  'gi'
+);
+const DATE_MENTION = new RegExp(
+  [
+    '\\b\\d{4}-\\d{1,2}-\\d{1,2}\\b',
+    '\\b\\d{1,2}([/.-])\\d{1,2}\\1(?:\\d{4}|\\d{2})\\b',
+    `\\b\\d{1,2}(?:st|nd|rd|th)?[\\s-]+${MONTH_NAME}[\\s,-]+\\d{4}\\b`,
+    `\\b${MONTH_NAME}[\\s-]+\\d{1,2}(?:st|nd|rd|th)?,?[\\s-]+\\d{4}\\b`,
+    `\\b${MONTH_NAME}[\\s'-]+\\d{4}\\b`,
+  ].join('|'),
+  'gi'
+);
+
+export interface Mentions {
+  amounts: Array<{ text: string; value: number; currency?: string }>;
+  dates: Array<{ text: string; value: string }>;
+}
+
+// Normalized amounts and dates found in text, each with the text it was read from
+export function findMentions(text: string): Mentions {
+  const amounts: Mentions['amounts'] = [];
+  for (const [mention] of text.matchAll(AMOUNT_MENTION)) {
+    const parsed = parseNumber(mention.replace(/\.$/, ''));
+    if (parsed) {
+      amounts.push({ text: mention.trim(), value: parsed.value, ...(parsed.currency ? { currency: parsed.currency } : {}) });
+    }
+    if (amounts.length >= MAX_MENTIONS) break;
+  }
+
+  const dateTexts = [...text.matchAll(DATE_MENTION)].map(([mention]) => mention).slice(0, MAX_MENTIONS);
+  const orders = inferDateOrders(dateTexts);
+  const dates = dateTexts.flatMap(mention => {
+    const value = parseDate(mention, orders);
+    return value ? [{ text: mention, value }] : [];
+  });
+
+  return { amounts, dates };
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31/02 and the like, which Date silently rolls over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3)) + 1;
+}
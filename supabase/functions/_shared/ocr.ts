@@ -0,0 +1,58 @@
+import { createOCREngine } from 'https://esm.sh/tesseract-wasm@0.10.0';
+
+type OcrEngine = Awaited<ReturnType<typeof createOCREngine>>;
+
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface OcrResult {
+  text: string;
+  // Mean word confidence in [0, 1]
+  confidence: number;
+}
+
+// Tesseract's WebAssembly build and its English model ship alongside the functions
+// (see SETUP-INSTRUCTIONS.md), so scanned pages never leave the project.
+const ENGINE_FILES = {
+  wasm: new URL('./ocr/tesseract-core.wasm', import.meta.url),
+  model: new URL('./ocr/eng.traineddata', import.meta.url),
+};
+
+let engine: Promise<OcrEngine> | null = null;
+
+// Loading the model takes a few seconds, so a warm worker keeps its engine
+function loadEngine(): Promise<OcrEngine> {
+  engine ??= (async () => {
+    let files: Uint8Array[];
+    try {
+      files = await Promise.all([Deno.readFile(ENGINE_FILES.wasm), Deno.readFile(ENGINE_FILES.model)]);
+    } catch (error) {
+      throw new Error(`OCR engine is not installed: ${error.message}`);
+    }
+
+    const ocr = await createOCREngine({ wasmBinary: files[0] });
+    ocr.loadModel(files[1]);
+    return ocr;
+  })().catch(error => {
+    engine = null;
+    throw error;
+  });
+
+  return engine;
+}
+
+export async function recognizeImage(image: RgbaImage): Promise<OcrResult> {
+  const ocr = await loadEngine();
+  ocr.loadImage(image as ImageData);
+
+  const text = ocr.getText().replace(/\n{3,}/g, '\n\n').trim();
+  const words = ocr.getTextBoxes('word');
+  const confidence = words.length > 0
+    ? words.reduce((total, word) => total + word.confidence, 0) / words.length
+    : 0;
+
+  return { text, confidence };
+}
@@ -0,0 +1,107 @@
+import { strFromU8, unzipSync } from 'https://esm.sh/fflate@0.8.2';
+
+// Minimal Office Open XML reading: the parts we need are well-formed, machine-written
+// XML, so a handful of patterns is enough and avoids a DOM parser in the edge runtime.
+
+export type OoxmlPackage = Map<string, string>;
+
+// Unzips only the XML parts and relationships; embedded media is never inflated
+export async function readPackage(fileData: Blob): Promise<OoxmlPackage> {
+  const files = unzipSync(new Uint8Array(await fileData.arrayBuffer()), {
+    filter: file => file.name.endsWith('.xml') || file.name.endsWith('.rels'),
+  });
+
+  return new Map(Object.entries(files).map(([name, data]) => [name, strFromU8(data)]));
+}
+
+export function requirePart(pkg: OoxmlPackage, name: string): string {
+  const part = pkg.get(name);
+  if (part === undefined) {
+    throw new Error(`Invalid Office document: missing ${name}`);
+  }
+  return part;
+}
+
+// Relationship id -> target path, resolved against the directory of the owning part
+export function readRelationships(pkg: OoxmlPackage, partName: string): Map<string, { type: string; target: string }> {
+  const slash = partName.lastIndexOf('/');
+  const dir = partName.slice(0, slash + 1);
+  const rels = pkg.get(`${dir}_rels/${partName.slice(slash + 1)}.rels`) ?? '';
+  const relationships = new Map<string, { type: string; target: string }>();
+
+  for (const [tag] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(tag, 'Id');
+    const target = attribute(tag, 'Target');
+    if (id && target) {
+      relationships.set(id, { type: attribute(tag, 'Type') ?? '', target: resolvePath(dir, target) });
+    }
+  }
+  return relationships;
+}
+
+function resolvePath(dir: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+
+  const parts = dir.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+export function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// Every outermost occurrence of the named elements in document order, self-closing
+// or not. Elements must not nest inside one of the same name.
+export function elements(xml: string, ...names: string[]): string[] {
+  const pattern = new RegExp(
+    names
+      .map(name => `<${name}(?:\\s[^>]*?)?\\/>|<${name}(?:\\s[^>]*)?>[\\s\\S]*?<\\/${name}>`)
+      .join('|'),
+    'g'
+  );
+  return [...xml.matchAll(pattern)].map(match => match[0]);
+}
+
+// Text runs of a WordprocessingML (w:) or DrawingML (a:) fragment, keeping tabs and line breaks
+export function runText(xml: string): string {
+  let text = '';
+  for (const match of xml.matchAll(/<([wa]):t(?:\s[^>]*)?>([^<]*)<\/\1:t>|<[wa]:(tab|br|cr)\b[^>]*\/>/g)) {
+    if (match[2] !== undefined) text += decodeXml(match[2]);
+    else text += match[3] === 'tab' ? '\t' : '\n';
+  }
+  return text.replace(/[ \t]+/g, ' ').trim();
+}
+
+// Table rows as " | "-joined cell text, empty rows dropped
+export function tableRows(xml: string, row: string, cell: string, paragraph: string): string[] {
+  return elements(xml, row)
+    .map(rowXml =>
+      elements(rowXml, cell)
+        .map(cellXml => elements(cellXml, paragraph).map(runText).filter(Boolean).join(' '))
+        .join(' | ')
+    )
+    .filter(line => line.replace(/[|\s]/g, '').length > 0);
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default: {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        // Codes past the Unicode range or in the surrogate block are not characters
+        const valid = Number.isFinite(code) && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+        return valid ? String.fromCodePoint(code) : match;
+      }
+    }
+  });
+}
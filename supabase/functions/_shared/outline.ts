@@ -0,0 +1,44 @@
+import type { ExtractedSection } from './types.ts';
+
+// A paragraph of body text, or a heading when headingLevel is set (lower is more important)
+export interface OutlineBlock {
+  text: string;
+  headingLevel?: number | null;
+}
+
+// One section per heading-delimited run of paragraphs, for formats that mark headings
+// explicitly (Word, Markdown, HTML). The heading path ("Strategy > Pricing") becomes
+// chunk metadata and is repeated on every chunk instead of being guessed from the text.
+// Paragraphs stay separated by blank lines so chunks break between them.
+export function outlineSections(blocks: OutlineBlock[]): ExtractedSection[] {
+  const sections: ExtractedSection[] = [];
+  const path: Array<{ level: number; text: string }> = [];
+  let paragraphs: string[] = [];
+
+  const flush = () => {
+    if (paragraphs.length === 0) return;
+    const heading = path.map(h => h.text).join(' > ');
+    sections.push({
+      text: paragraphs.join('\n\n'),
+      metadata: heading ? { heading, heading_level: path[path.length - 1].level } : {},
+      ...(heading ? { context: heading } : {}),
+    });
+    paragraphs = [];
+  };
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text) continue;
+
+    if (typeof block.headingLevel === 'number') {
+      flush();
+      while (path.length > 0 && path[path.length - 1].level >= block.headingLevel) path.pop();
+      path.push({ level: block.headingLevel, text: text.replace(/\s+/g, ' ') });
+    } else {
+      paragraphs.push(text);
+    }
+  }
+  flush();
+
+  return sections;
+}
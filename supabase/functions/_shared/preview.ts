@@ -0,0 +1,141 @@
+import { chunkSection, resolveChunkingOptions, type ChunkingOptions } from './chunking.ts';
+import { EMBEDDING_BATCH_SIZE, type EmbeddingModel } from './embeddings.ts';
+import type { ColumnType } from './schema.ts';
+import type { Extraction, ExtractionSample, RowError } from './types.ts';
+
+// Large files are previewed from their start and the figures scaled up to the
+// whole file, so a preview stays inside a single request's time and memory:
+// the first bytes of line-based text, the first pages of a PDF, the first rows
+// of each sheet. Other formats are read whole, up to a size limit.
+export const PREVIEW_SAMPLE_BYTES = 2 * 1024 * 1024;
+export const PREVIEW_PAGES = 20;
+export const PREVIEW_ROWS = 2000;
+export const PREVIEW_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+const SAMPLE_TEXT_CHARS = 3000;
+const SAMPLE_CHUNKS = 10;
+const SAMPLE_ROW_ERRORS = 5;
+
+// Chunk metadata too bulky to show with every sample chunk
+const omittedSampleKeys = ['header', 'rows', 'token_count'];
+
+// What ingestion would do with a file: the same extraction and chunking, with
+// nothing stored and nothing embedded
+export interface IngestionPreview {
+  textLength: number;
+  sample: string;
+  structure: {
+    sections: number;
+    pages?: number;
+    tables?: number;
+    sheets?: Array<{ name: string; columns: string[]; rows: number }>;
+    columns?: string[];
+    rows?: number;
+    slides?: number;
+    headings?: number;
+    // Character encoding a CSV was read with, and whether it was detected or chosen
+    encoding?: { name: string; source: string };
+    // Rows ingestion would report as malformed, the first few in full
+    rowErrors?: { rows: number; skipped: number; sample: RowError[] };
+    // Column types inferred for the structured store, per CSV or sheet
+    schema?: Array<{ table: string; columns: Array<{ name: string; type: ColumnType; currency?: string }> }>;
+  };
+  // Set when only the start of the file was read; text length, chunk total and
+  // estimate are scaled up from it, everything else describes the sample
+  sampled?: ExtractionSample;
+  defaultStrategy: ChunkingOptions['strategy'];
+  chunking: ChunkingOptions;
+  chunks: {
+    total: number;
+    averageTokens: number;
+    largestTokens: number;
+    sample: Array<{ content: string; tokenCount: number; metadata: Record<string, unknown> }>;
+  };
+  estimate: {
+    model: string;
+    embeddingRequests: number;
+    tokens: number;
+    // Scanned pages are read by OCR during ingestion, so their chunks are not
+    // in the figures above
+    scannedPages: number;
+  };
+}
+
+export function previewIngestion(
+  extraction: Extraction,
+  requested: Partial<ChunkingOptions> | undefined,
+  model: EmbeddingModel
+): IngestionPreview {
+  const text = extraction.content ?? extraction.sections.map(section => section.text).join('\n\n');
+  const chunking = resolveChunkingOptions(requested, extraction.defaultStrategy);
+  const chunks = extraction.sections.flatMap(section => chunkSection(section, chunking));
+  const tokenCounts = chunks.map(chunk => Number(chunk.metadata.token_count));
+  const tokens = tokenCounts.reduce((total, count) => total + count, 0);
+  const scale = extraction.sampled ? extraction.sampled.total / extraction.sampled.read : 1;
+  const totalChunks = Math.round(chunks.length * scale);
+
+  return {
+    textLength: Math.round(text.length * scale),
+    sample: text.slice(0, SAMPLE_TEXT_CHARS),
+    structure: describeStructure(extraction),
+    ...(extraction.sampled ? { sampled: extraction.sampled } : {}),
+    defaultStrategy: extraction.defaultStrategy,
+    chunking,
+    chunks: {
+      total: totalChunks,
+      averageTokens: chunks.length > 0 ? Math.round(tokens / chunks.length) : 0,
+      largestTokens: tokenCounts.reduce((largest, count) => Math.max(largest, count), 0),
+      sample: chunks.slice(0, SAMPLE_CHUNKS).map(chunk => ({
+        content: chunk.content,
+        tokenCount: Number(chunk.metadata.token_count),
+        metadata: Object.fromEntries(Object.entries(chunk.metadata).filter(([key]) => !omittedSampleKeys.includes(key))),
+      })),
+    },
+    estimate: {
+      model: model.model,
+      embeddingRequests: Math.ceil(totalChunks / EMBEDDING_BATCH_SIZE),
+      tokens: Math.round(tokens * scale),
+      scannedPages: Math.round((extraction.ocrPages?.length ?? 0) * scale),
+    },
+  };
+}
+
+// Extractors describe their documents in different shapes (see Extraction.metadata)
+function describeStructure(extraction: Extraction): IngestionPreview['structure'] {
+  const metadata = extraction.metadata ?? {};
+  const sheets = metadata.sheets as Array<{ name: string; header: string[]; rowStart: number; rowEnd: number }> | undefined;
+  const tables = metadata.tables as unknown[] | undefined;
+
+  return {
+    sections: extraction.sections.length,
+    ...(typeof metadata.pages === 'number' ? { pages: metadata.pages } : {}),
+    ...(tables ? { tables: tables.length } : {}),
+    ...(sheets
+      ? { sheets: sheets.map(sheet => ({ name: sheet.name, columns: sheet.header, rows: sheet.rowEnd - sheet.rowStart })) }
+      : {}),
+    ...(Array.isArray(metadata.columns) ? { columns: metadata.columns as string[] } : {}),
+    ...(typeof metadata.rowCount === 'number' ? { rows: metadata.rowCount } : {}),
+    ...(typeof metadata.slides === 'number' ? { slides: metadata.slides } : {}),
+    ...(typeof metadata.headings === 'number' ? { headings: metadata.headings } : {}),
+    ...(typeof metadata.encoding === 'string'
+      ? { encoding: { name: metadata.encoding, source: String(metadata.encodingSource) } }
+      : {}),
+    ...(extraction.rowErrors?.length
+      ? {
+        rowErrors: {
+          rows: extraction.rowErrors.length,
+          skipped: extraction.rowErrors.filter(rowError => rowError.skipped).length,
+          sample: extraction.rowErrors.slice(0, SAMPLE_ROW_ERRORS),
+        },
+      }
+      : {}),
+    ...(extraction.tables
+      ? {
+        schema: extraction.tables.map(table => ({
+          table: table.name,
+          columns: table.columns.map(({ name, type, currency }) => ({ name, type, ...(currency ? { currency } : {}) })),
+        })),
+      }
+      : {}),
+  };
+}
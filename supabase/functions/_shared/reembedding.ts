@@ -0,0 +1,123 @@
+import { embedTexts, type EmbeddingModel } from './embeddings.ts';
+import type { SupabaseClient } from './supabase.ts';
+
+export const REEMBEDDING_WORKER = 'reembedding-worker';
+
+export type ReembeddingStatus = 'queued' | 'embedding' | 'done' | 'failed' | 'cancelled';
+
+// model/dimensions are the ones being switched to
+export interface ReembeddingJob extends EmbeddingModel {
+  id: string;
+  previous_model: string;
+  previous_dimensions: number;
+  status: ReembeddingStatus;
+  total_chunks: number;
+  processed_chunks: number;
+  error: string | null;
+  attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// Chunks embedded per worker invocation, as for ingestion
+const REEMBEDDING_STEP_SIZE = 400;
+
+export function isRunning(status: ReembeddingStatus): boolean {
+  return status === 'queued' || status === 'embedding';
+}
+
+// Embeds the next batch of chunks that have no vector from the new model yet. Once
+// every chunk has one, switches all of them and the active model over at once.
+// Returns false when the switch has to wait for ingestion still writing chunks.
+export async function runReembeddingStep(supabase: SupabaseClient, job: ReembeddingJob): Promise<boolean> {
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured');
+  }
+
+  const { data: chunks, error: loadError } = await supabase
+    .from('embeddings')
+    .select('id, content')
+    .is('pending_model', null)
+    .order('id')
+    .limit(REEMBEDDING_STEP_SIZE);
+
+  if (loadError) {
+    throw new Error(`Failed to load chunks: ${loadError.message}`);
+  }
+
+  if (chunks.length > 0) {
+    const { vectors, failedIndexes } = await embedTexts(chunks.map(chunk => chunk.content), apiKey, job);
+    const embedded = chunks.flatMap((chunk, i) => vectors[i] ? [{ id: chunk.id, embedding: vectors[i] }] : []);
+
+    if (embedded.length > 0) {
+      const { error } = await supabase.rpc('store_pending_embeddings', {
+        target_model: job.model,
+        chunks: embedded,
+      });
+      if (error) {
+        throw new Error(`Failed to store embeddings: ${error.message}`);
+      }
+    }
+
+    // Every chunk needs a new vector before the switch; vectors stored so far are
+    // kept, so starting the same model again resumes from here
+    if (failedIndexes.length > 0) {
+      throw new Error(`Failed to embed ${failedIndexes.length} chunks with ${job.model}`);
+    }
+  }
+
+  const { total, remaining } = await countChunks(supabase);
+  console.log(`Re-embedded ${total - remaining} of ${total} chunks with ${job.model}`);
+  await updateJob(supabase, job.id, {
+    status: 'embedding',
+    total_chunks: total,
+    processed_chunks: total - remaining,
+    attempts: 0,
+  });
+
+  if (remaining > 0) {
+    return true;
+  }
+
+  const { data: switched, error: switchError } = await supabase.rpc('switch_embedding_model', {
+    target_job_id: job.id,
+  });
+  if (switchError) {
+    throw new Error(`Failed to switch embedding model: ${switchError.message}`);
+  }
+
+  console.log(switched ? `Switched embedding model to ${job.model}` : 'Embedding model switch is waiting for ingestion');
+  return switched === true;
+}
+
+async function countChunks(supabase: SupabaseClient) {
+  const [all, pending] = await Promise.all([
+    supabase.from('embeddings').select('id', { count: 'exact', head: true }),
+    supabase.from('embeddings').select('id', { count: 'exact', head: true }).is('pending_model', null),
+  ]);
+
+  const error = all.error ?? pending.error;
+  if (error) {
+    throw new Error(`Failed to count chunks: ${error.message}`);
+  }
+  return { total: all.count ?? 0, remaining: pending.count ?? 0 };
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, changes: Partial<ReembeddingJob>) {
+  const { data, error } = await supabase
+    .from('reembedding_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .in('status', ['queued', 'embedding'])
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update re-embedding job: ${error.message}`);
+  }
+  if (data.length === 0) {
+    throw new Error('Re-embedding was cancelled');
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { describeTable, inferTable, normalizeValue, valueErrors } from './schema.ts';
+import type { TableRow } from './tabular.ts';
+
+const table = (header: string[], rows: string[][]) =>
+  inferTable(
+    'test.csv',
+    { rowNumber: 1, cells: header },
+    rows.map((cells, i): TableRow => ({ rowNumber: i + 2, cells }))
+  );
+
+describe('inferTable', () => {
+  it.each([
+    ['integer', ['1,200', '12,34,567', '7'], { type: 'integer' }],
+    ['number', ['1.5', '2', '3.25'], { type: 'number' }],
+    ['currency from values', ['₹3.2 Cr', '₹ 45,000', '₹12'], { type: 'currency', currency: 'INR' }],
+    ['currency from the header', ['100', '250'], { type: 'currency', currency: 'INR' }, 'Amount (₹)'],
+    ['day-first date', ['15/01/2024', '02/03/2024'], { type: 'date', dateOrders: { '/': 'dmy' } }],
+    ['month-first date', ['01/15/2024', '02/03/2024'], { type: 'date', dateOrders: { '/': 'mdy' } }],
+    ['category', ['North', 'South', 'North', 'South', 'North'], { type: 'category' }],
+    ['text', ['alpha', 'beta', 'gamma'], { type: 'text' }],
+  ])('infers a %s column', (_, values, expected, header = 'Value') => {
+    const [column] = table([header], values.map(value => [value])).columns;
+    expect(column).toMatchObject(expected);
+  });
+
+  it('allows a few unreadable values in a typed column', () => {
+    const values = [...Array.from({ length: 10 }, (_, i) => String(i + 1)), 'n/a'];
+    const [column] = table(['Units'], values.map(value => [value])).columns;
+    expect(column.type).toBe('integer');
+    expect(column.stats).toMatchObject({ count: 11, invalid: 1, sum: 55, min: 1, max: 10 });
+  });
+
+  it('names blank and repeated headers', () => {
+    const result = table(['Name', '', 'Name'], [['a', 'b', 'c']]);
+    expect(result.columns.map(column => column.name)).toEqual(['Name', 'Column 2', 'Name (2)']);
+    expect(result.rows[0].raw).toEqual({ Name: 'a', 'Column 2': 'b', 'Name (2)': 'c' });
+  });
+
+  it('stores normalized values next to the raw ones', () => {
+    const result = table(['Date', 'Amount'], [['15/01/2024', '₹3.2 Cr'], ['02/03/2024', '₹ 12,34,567']]);
+    expect(result.rows.map(row => row.data)).toEqual([
+      { Date: '2024-01-15', Amount: 32000000 },
+      { Date: '2024-03-02', Amount: 1234567 },
+    ]);
+  });
+});
+
+describe('valueErrors', () => {
+  it('reports unreadable cells in typed columns, one line per row', () => {
+    const values = [...Array.from({ length: 10 }, (_, i) => [String(i), `0${(i % 9) + 1}/01/2024`]), ['oops', 'later']];
+    expect(valueErrors(table(['Units', 'Date'], values))).toEqual([
+      { rowNumber: 12, problem: 'Units: "oops" is not a whole number; Date: "later" is not a date' },
+    ]);
+  });
+
+  it('ignores empty cells and untyped columns', () => {
+    expect(valueErrors(table(['Units', 'Note'], [['1', 'a'], ['', 'b'], ['3', 'c']]))).toEqual([]);
+  });
+});
+
+describe('normalizeValue', () => {
+  it.each([
+    ['₹3.2 Cr', { type: 'currency' }, 32000000],
+    ['02/03/2024', { type: 'date', dateOrders: { '/': 'mdy' } }, '2024-02-03'],
+    ['  North ', { type: 'category' }, 'North'],
+    ['   ', { type: 'integer' }, null],
+    ['many', { type: 'number' }, null],
+  ] as const)('normalizes %j as %j', (cell, column, expected) => {
+    expect(normalizeValue(cell, column)).toBe(expected);
+  });
+});
+
+describe('describeTable', () => {
+  it('summarizes each column with exact figures', () => {
+    const result = table(['Region', 'Units'], [['North', '10'], ['South', '20'], ['North', ''], ['North', '5']]);
+    expect(describeTable(result.name, result.columns, result.rows.length)).toBe([
+      'Table "test.csv", 4 rows:',
+      '- Region (category): 2 values: North (3), South (1)',
+      '- Units (integer): sum 35, min 5, max 20; 1 empty or unreadable',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,224 @@
+import { CURRENCY_MARKERS, inferDateOrders, parseDate, parseNumber, type DateOrders, type ParsedNumber } from './normalize.ts';
+import type { TableRow } from './tabular.ts';
+import type { ExtractedSection } from './types.ts';
+
+// Infers a type for each column of a table and normalizes its values, so the
+// table can be stored for exact lookups next to its text chunks.
+
+export type ColumnType = 'date' | 'integer' | 'number' | 'currency' | 'category' | 'text';
+
+export interface ColumnStats {
+  // Non-empty cells, and how many of them could not be read as the column's type
+  count: number;
+  invalid: number;
+  // Numeric columns
+  sum?: number;
+  min?: number | string;
+  max?: number | string;
+  // Category columns: most frequent values first
+  distinct?: number;
+  values?: Array<{ value: string; count: number }>;
+}
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  // ISO 4217 code, for currency columns
+  currency?: string;
+  // Day/month order of numeric dates, for date columns
+  dateOrders?: DateOrders;
+  stats: ColumnStats;
+}
+
+export type NormalizedValue = number | string | null;
+
+export interface StructuredTable {
+  name: string;
+  columns: ColumnSchema[];
+  rows: Array<{ rowNumber: number; data: Record<string, NormalizedValue>; raw: Record<string, string> }>;
+}
+
+// Share of a column's values that must parse for it to get a type
+const MIN_TYPE_SHARE = 0.9;
+// Text columns with at most this many distinct values (and mostly repeats) are categories
+const MAX_CATEGORIES = 50;
+const MAX_CATEGORY_VALUES = 20;
+
+const typeNames: Record<ColumnType, string> = {
+  date: 'a date',
+  integer: 'a whole number',
+  number: 'a number',
+  currency: 'an amount',
+  category: 'a value',
+  text: 'text',
+};
+
+export function inferTable(name: string, header: TableRow, dataRows: TableRow[]): StructuredTable {
+  const width = dataRows.reduce((widest, row) => Math.max(widest, row.cells.length), header.cells.length);
+  const names = columnNames(header.cells, width);
+  const columns = names.map((columnName, index) =>
+    inferColumn(columnName, dataRows.map(row => row.cells[index]?.trim() ?? ''))
+  );
+
+  return {
+    name,
+    columns,
+    rows: dataRows.map(row => ({
+      rowNumber: row.rowNumber,
+      data: Object.fromEntries(columns.map((column, i) => [column.name, normalizeValue(row.cells[i] ?? '', column)])),
+      raw: Object.fromEntries(names.map((columnName, i) => [columnName, row.cells[i] ?? ''])),
+    })),
+  };
+}
+
+// Cells in typed columns that could not be read, one line per affected row.
+// They are stored as null, so the row is kept but those values are missing.
+export function valueErrors(table: StructuredTable): Array<{ rowNumber: number; problem: string }> {
+  const typed = table.columns.filter(column => !['category', 'text'].includes(column.type));
+  return table.rows.flatMap(row => {
+    const problems = typed
+      .filter(column => row.raw[column.name]?.trim() && row.data[column.name] === null)
+      .map(column => `${column.name}: "${row.raw[column.name]}" is not ${typeNames[column.type]}`);
+    return problems.length > 0 ? [{ rowNumber: row.rowNumber, problem: problems.join('; ') }] : [];
+  });
+}
+
+// Copies each row group's normalized values into its section metadata, so chunks
+// carry canonical numbers and dates next to the text as written
+export function attachRowValues(sections: ExtractedSection[], table: StructuredTable): ExtractedSection[] {
+  const rowsByNumber = new Map(table.rows.map(row => [row.rowNumber, row.data]));
+  return sections.map(section => {
+    const rows = [];
+    for (let row = Number(section.metadata.row_start); row <= Number(section.metadata.row_end); row++) {
+      const values = rowsByNumber.get(row);
+      if (values) rows.push({ row, values });
+    }
+    return rows.length > 0 ? { ...section, metadata: { ...section.metadata, rows } } : section;
+  });
+}
+
+export function normalizeValue(cell: string, column: Pick<ColumnSchema, 'type' | 'dateOrders'>): NormalizedValue {
+  const value = cell.trim();
+  if (!value) return null;
+
+  switch (column.type) {
+    case 'integer':
+    case 'number':
+    case 'currency':
+      return parseNumber(value)?.value ?? null;
+    case 'date':
+      return parseDate(value, column.dateOrders);
+    default:
+      return value;
+  }
+}
+
+// Summary of a stored table for the chat prompt: exact totals and ranges the
+// model would otherwise have to add up from the retrieved rows
+export function describeTable(name: string, columns: ColumnSchema[], rowCount: number): string {
+  const lines = columns.map(column => {
+    const { stats } = column;
+    const type = column.currency ? `${column.type}, ${column.currency}` : column.type;
+    const details = column.type === 'category'
+      ? `${stats.distinct} values: ${(stats.values ?? []).map(({ value, count }) => `${value} (${count})`).join(', ')}`
+      : column.type === 'text'
+        ? `${stats.distinct} distinct values`
+        : column.type === 'date'
+          ? `from ${stats.min} to ${stats.max}`
+          : `sum ${stats.sum}, min ${stats.min}, max ${stats.max}`;
+    const missing = rowCount - stats.count + stats.invalid;
+    return `- ${column.name} (${type}): ${details}${missing > 0 ? `; ${missing} empty or unreadable` : ''}`;
+  });
+  return [`Table "${name}", ${rowCount} rows:`, ...lines].join('\n');
+}
+
+// Blank headers get a positional name and repeated ones a suffix, so every
+// column can be a key in the stored rows
+function columnNames(cells: string[], width: number): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < width; i++) {
+    const base = cells[i]?.trim() || `Column ${i + 1}`;
+    let name = base;
+    for (let n = 2; names.includes(name); n++) {
+      name = `${base} (${n})`;
+    }
+    names.push(name);
+  }
+  return names;
+}
+
+function inferColumn(name: string, cells: string[]): ColumnSchema {
+  const values = cells.filter(Boolean);
+  const share = (count: number) => (values.length > 0 ? count / values.length : 0);
+
+  const dateOrders = inferDateOrders(values);
+  const validDates = values
+    .map(value => parseDate(value, dateOrders))
+    .filter((date): date is string => date !== null);
+  if (values.length > 0 && share(validDates.length) >= MIN_TYPE_SHARE) {
+    const sorted = [...validDates].sort();
+    return {
+      name,
+      type: 'date',
+      ...(Object.keys(dateOrders).length > 0 ? { dateOrders } : {}),
+      stats: { count: values.length, invalid: values.length - validDates.length, min: sorted[0], max: sorted[sorted.length - 1] },
+    };
+  }
+
+  const numbers = values.map(parseNumber).filter((parsed): parsed is ParsedNumber => parsed !== null);
+  if (values.length > 0 && share(numbers.length) >= MIN_TYPE_SHARE) {
+    const currency = mostCommon(numbers.flatMap(parsed => (parsed.currency ? [parsed.currency] : [])))
+      ?? CURRENCY_MARKERS.find(([pattern]) => pattern.test(name))?.[1];
+    const type: ColumnType = currency ? 'currency' : numbers.every(parsed => parsed.integer) ? 'integer' : 'number';
+    const sum = numbers.reduce((total, parsed) => total + parsed.value, 0);
+
+    return {
+      name,
+      type,
+      ...(currency ? { currency } : {}),
+      stats: {
+        count: values.length,
+        invalid: values.length - numbers.length,
+        sum: round(sum),
+        min: numbers.reduce((min, parsed) => Math.min(min, parsed.value), Infinity),
+        max: numbers.reduce((max, parsed) => Math.max(max, parsed.value), -Infinity),
+      },
+    };
+  }
+
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const isCategory = counts.size > 0 && counts.size <= MAX_CATEGORIES && counts.size <= Math.max(values.length / 2, 1);
+
+  return {
+    name,
+    type: isCategory ? 'category' : 'text',
+    stats: {
+      count: values.length,
+      invalid: 0,
+      distinct: counts.size,
+      ...(isCategory
+        ? {
+          values: [...counts]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_CATEGORY_VALUES)
+            .map(([value, count]) => ({ value, count })),
+        }
+        : {}),
+    },
+  };
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,9 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+
+export const SUPABASE_URL = 'https://nupqpsayufclflmtfjin.supabase.co';
+
+export function createServiceClient() {
+  return createClient(SUPABASE_URL, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '');
+}
+
+export type SupabaseClient = ReturnType<typeof createServiceClient>;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords, rowSections, toCsvLine } from './tabular.ts';
+
+describe('parseCsv', () => {
+  it.each([
+    ['a,b,c\n1,2,3', [['a', 'b', 'c'], ['1', '2', '3']]],
+    ['a,b\r\n1,2\r\n', [['a', 'b'], ['1', '2']]],
+    ['name,note\n"Mumbai, West","said ""hi"""', [['name', 'note'], ['Mumbai, West', 'said "hi"']]],
+    ['name,note\n"two\nlines",x', [['name', 'note'], ['two\nlines', 'x']]],
+    ['a,,c\n,,', [['a', '', 'c'], ['', '', '']]],
+    ['a\tb\n1\t2', [['a\tb'], ['1\t2']]],
+  ])('parses %j', (text, expected) => {
+    expect(parseCsv(text)).toEqual(expected);
+  });
+
+  it('splits on another delimiter', () => {
+    expect(parseCsv('a\tb\n"1\t2"\t3', '\t')).toEqual([['a', 'b'], ['1\t2', '3']]);
+  });
+
+  it('keeps each record as written, quoted newlines included', () => {
+    expect(parseCsvRecords('a,b\n"x\ny",2\r\n3,4').map(record => record.raw)).toEqual(['a,b', '"x\ny",2', '3,4']);
+  });
+});
+
+describe('toCsvLine', () => {
+  it('quotes only the cells that need it', () => {
+    expect(toCsvLine(['plain', 'a,b', 'say "x"', 'two\nlines'])).toBe('plain,"a,b","say ""x""","two\nlines"');
+  });
+});
+
+describe('rowSections', () => {
+  it('repeats the header in every row group and records the row span', () => {
+    const header = { rowNumber: 1, cells: ['id', 'text'] };
+    const rows = Array.from({ length: 30 }, (_, i) => ({ rowNumber: i + 2, cells: [String(i), 'x'.repeat(100)] }));
+    const sections = rowSections(header, rows, { title: 'Sheet: Data' });
+
+    expect(sections.length).toBeGreaterThan(1);
+    for (const section of sections) {
+      expect(section.text.startsWith('Sheet: Data\nid,text\n')).toBe(true);
+      expect(section.atomic).toBe(true);
+    }
+    expect(sections[0].metadata.row_start).toBe(2);
+    expect(sections[sections.length - 1].metadata.row_end).toBe(31);
+  });
+
+  it('keeps a header-only table', () => {
+    const sections = rowSections({ rowNumber: 1, cells: ['id', 'name'] }, []);
+    expect(sections).toEqual([
+      { text: 'id,name', metadata: { header: ['id', 'name'], row_start: 1, row_end: 1 }, atomic: true },
+    ]);
+  });
+});
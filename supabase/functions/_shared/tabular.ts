@@ -0,0 +1,119 @@
+import type { ExtractedSection } from './types.ts';
+
+// Rough size of a row group; keeps each section within a single embedding chunk
+const MAX_SECTION_CHARS = 2000;
+
+export interface TableRow {
+  rowNumber: number;
+  cells: string[];
+  // The record as written in a CSV, for error reports
+  raw?: string;
+}
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and newlines.
+// Tab-separated text ("Unicode Text" from Excel) parses the same way.
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  return parseCsvRecords(text, delimiter).map(record => record.cells);
+}
+
+// Same as parseCsv, keeping each record's source text
+export function parseCsvRecords(text: string, delimiter = ','): Array<{ cells: string[]; raw: string }> {
+  const records: Array<{ cells: string[]; raw: string }> = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let recordStart = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      const recordEnd = i;
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ cells: record, raw: text.slice(recordStart, recordEnd) });
+      record = [];
+      field = '';
+      recordStart = i + 1;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ cells: record, raw: text.slice(recordStart) });
+  }
+
+  return records;
+}
+
+export function toCsvLine(cells: string[]): string {
+  return cells
+    .map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+    .join(',');
+}
+
+// Groups whole rows into chunk-sized sections, each prefixed with the header line
+// so retrieved chunks never separate values from their column names.
+export function rowSections(
+  header: TableRow,
+  dataRows: TableRow[],
+  options: { title?: string; metadata?: Record<string, unknown> } = {}
+): ExtractedSection[] {
+  const prefix = [...(options.title ? [options.title] : []), toCsvLine(header.cells)];
+  const sections: ExtractedSection[] = [];
+
+  const pushSection = (rows: TableRow[]) => {
+    const span = rows.length > 0 ? rows : [header];
+    sections.push({
+      text: [...prefix, ...rows.map(row => toCsvLine(row.cells))].join('\n'),
+      metadata: {
+        ...options.metadata,
+        header: header.cells,
+        row_start: span[0].rowNumber,
+        row_end: span[span.length - 1].rowNumber,
+      },
+      atomic: true,
+    });
+  };
+
+  let group: TableRow[] = [];
+  let groupLength = 0;
+  for (const row of dataRows) {
+    const length = toCsvLine(row.cells).length;
+    if (group.length > 0 && groupLength + length > MAX_SECTION_CHARS) {
+      pushSection(group);
+      group = [];
+      groupLength = 0;
+    }
+    group.push(row);
+    groupLength += length;
+  }
+
+  // Header-only tables still carry information worth indexing
+  if (group.length > 0 || dataRows.length === 0) {
+    pushSection(group);
+  }
+
+  return sections;
+}
@@ -0,0 +1,288 @@
+// Structured tags derived at ingest so retrieval can be narrowed to, say, one
+// state's Q3 sales reports. Rules find the names and periods the strategy team
+// uses; an LLM pass reads an excerpt for what rules miss (spelling variants,
+// the category) and is optional: without it the rule tags still apply.
+
+const TAGGING_MODEL = 'gemini-1.5-flash';
+
+// The start of a document says what it is about; later pages mostly repeat it
+const LLM_EXCERPT_CHARS = 12000;
+// Tags are for filtering, so a document mentioning everything gets the most frequent
+const MAX_TAG_VALUES = 10;
+
+export const DOCUMENT_CATEGORIES = [
+  'sales_report',
+  'market_research',
+  'competitor_analysis',
+  'financial',
+  'product',
+  'pricing',
+  'dealer_network',
+  'strategy',
+  'other',
+] as const;
+
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+
+export interface DocumentTags {
+  category: DocumentCategory;
+  reporting_periods: string[];
+  states: string[];
+  cities: string[];
+  product_lines: string[];
+  competitors: string[];
+}
+
+type TagList = Exclude<keyof DocumentTags, 'category'>;
+
+// Canonical name -> spellings found in documents (matched as whole words, case-insensitive)
+const STATES: Record<string, string[]> = {
+  'Andhra Pradesh': ['andhra pradesh'],
+  'Arunachal Pradesh': ['arunachal pradesh'],
+  'Assam': ['assam'],
+  'Bihar': ['bihar'],
+  'Chhattisgarh': ['chhattisgarh', 'chattisgarh'],
+  'Goa': ['goa'],
+  'Gujarat': ['gujarat'],
+  'Haryana': ['haryana'],
+  'Himachal Pradesh': ['himachal pradesh'],
+  'Jharkhand': ['jharkhand'],
+  'Karnataka': ['karnataka'],
+  'Kerala': ['kerala'],
+  'Madhya Pradesh': ['madhya pradesh'],
+  'Maharashtra': ['maharashtra'],
+  'Manipur': ['manipur'],
+  'Meghalaya': ['meghalaya'],
+  'Mizoram': ['mizoram'],
+  'Nagaland': ['nagaland'],
+  'Odisha': ['odisha', 'orissa'],
+  'Punjab': ['punjab'],
+  'Rajasthan': ['rajasthan'],
+  'Sikkim': ['sikkim'],
+  'Tamil Nadu': ['tamil nadu', 'tamilnadu'],
+  'Telangana': ['telangana'],
+  'Tripura': ['tripura'],
+  'Uttar Pradesh': ['uttar pradesh'],
+  'Uttarakhand': ['uttarakhand', 'uttaranchal'],
+  'West Bengal': ['west bengal'],
+  'Delhi': ['delhi ncr', 'nct of delhi'],
+  'Jammu and Kashmir': ['jammu and kashmir', 'jammu & kashmir'],
+  'Ladakh': ['ladakh'],
+  'Puducherry': ['puducherry', 'pondicherry'],
+  'Chandigarh': ['chandigarh'],
+};
+
+const CITIES: Record<string, string[]> = {
+  'Ahmedabad': ['ahmedabad'],
+  'Bengaluru': ['bengaluru', 'bangalore'],
+  'Bhopal': ['bhopal'],
+  'Bhubaneswar': ['bhubaneswar'],
+  'Chandigarh': ['chandigarh'],
+  'Chennai': ['chennai', 'madras'],
+  'Coimbatore': ['coimbatore'],
+  'Dehradun': ['dehradun'],
+  'Delhi': ['delhi', 'new delhi'],
+  'Guwahati': ['guwahati'],
+  'Gurugram': ['gurugram', 'gurgaon'],
+  'Hyderabad': ['hyderabad'],
+  'Indore': ['indore'],
+  'Jaipur': ['jaipur'],
+  'Kochi': ['kochi', 'cochin'],
+  'Kolkata': ['kolkata', 'calcutta'],
+  'Lucknow': ['lucknow'],
+  'Ludhiana': ['ludhiana'],
+  'Mumbai': ['mumbai', 'bombay'],
+  'Mysuru': ['mysuru', 'mysore'],
+  'Nagpur': ['nagpur'],
+  'Nashik': ['nashik', 'nasik'],
+  'Noida': ['noida'],
+  'Patna': ['patna'],
+  'Pune': ['pune'],
+  'Surat': ['surat'],
+  'Thiruvananthapuram': ['thiruvananthapuram', 'trivandrum'],
+  'Vadodara': ['vadodara', 'baroda'],
+  'Visakhapatnam': ['visakhapatnam', 'vizag'],
+};
+
+const PRODUCT_LINES: Record<string, string[]> = {
+  'Vida V1 Pro': ['v1 pro', 'v1pro'],
+  'Vida V1 Plus': ['v1 plus', 'v1plus', 'v1+'],
+  'Vida V2 Pro': ['v2 pro', 'v2pro'],
+  'Vida V2 Plus': ['v2 plus', 'v2plus', 'v2+'],
+  'Vida V2 Lite': ['v2 lite', 'v2lite'],
+  'Vida VX2': ['vx2'],
+};
+
+const COMPETITORS: Record<string, string[]> = {
+  'Ola Electric': ['ola electric', 'ola s1'],
+  'Ather Energy': ['ather', 'ather energy', 'ather rizta', 'ather 450'],
+  'TVS iQube': ['iqube', 'tvs iqube'],
+  'Bajaj Chetak': ['chetak', 'bajaj chetak'],
+  'Honda Activa e': ['activa e', 'honda qc1'],
+  'Ampere': ['ampere'],
+  'Okinawa': ['okinawa'],
+  'Simple Energy': ['simple energy', 'simple one'],
+  'River': ['river indie'],
+  'Kinetic Green': ['kinetic green'],
+  'BGauss': ['bgauss'],
+  'Greaves Electric': ['greaves electric'],
+};
+
+// First matching rule wins; the file name counts as much as the text
+const CATEGORY_RULES: Array<{ category: DocumentCategory; pattern: RegExp }> = [
+  { category: 'competitor_analysis', pattern: /\b(competitor|competition|competitive|benchmark(ing)?)\b/i },
+  { category: 'pricing', pattern: /\b(price list|pricing|ex-showroom|on-road price)\b/i },
+  { category: 'dealer_network', pattern: /\b(dealers?|dealership|showrooms?|touchpoints?)\b/i },
+  { category: 'sales_report', pattern: /\b(sales|registrations?|vahan|retail volumes?|dispatch(es)?)\b/i },
+  { category: 'market_research', pattern: /\b(survey|respondents|market research|consumer insights?|focus group)\b/i },
+  { category: 'financial', pattern: /\b(p&l|ebitda|revenue|budget|balance sheet|opex|capex)\b/i },
+  { category: 'product', pattern: /\b(specifications?|spec sheet|launch|range|battery|variant)\b/i },
+  { category: 'strategy', pattern: /\b(strategy|roadmap|business plan|go-to-market|gtm)\b/i },
+];
+
+const MONTHS = String.raw`jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?`;
+
+// "Q3 FY25", "H1 FY2024-25", "FY24", "FY 2023-24", "March 2024", "Mar'24". A
+// two-digit year after a month needs the apostrophe, or "May 25" could be a date.
+const PERIOD_PATTERN = new RegExp(
+  String.raw`\b(?:(Q[1-4]|H[12])\s*)?FY\s?'?(\d{4}|\d{2})(?:\s?[-–/]\s?(\d{4}|\d{2}))?\b` +
+  String.raw`|\b(${MONTHS})\.?(?:[\s,-]\s?(20\d{2})|\s?['’]\s?(\d{2}))\b`,
+  'gi'
+);
+
+const dictionaryPatterns = (dictionary: Record<string, string[]>) =>
+  Object.entries(dictionary).map(([name, spellings]) => ({
+    name,
+    pattern: new RegExp(
+      `(?<![\\w])(${spellings.map(spelling => spelling.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+')).join('|')})(?![\\w])`,
+      'gi'
+    ),
+  }));
+
+const DICTIONARIES: Record<Exclude<TagList, 'reporting_periods'>, ReturnType<typeof dictionaryPatterns>> = {
+  states: dictionaryPatterns(STATES),
+  cities: dictionaryPatterns(CITIES),
+  product_lines: dictionaryPatterns(PRODUCT_LINES),
+  competitors: dictionaryPatterns(COMPETITORS),
+};
+
+export async function tagDocument(text: string, fileName: string, apiKey: string | undefined): Promise<DocumentTags> {
+  const tags = ruleTags(`${fileName}\n${text}`);
+  if (!apiKey) return tags;
+
+  try {
+    return mergeTags(tags, await llmTags(text.slice(0, LLM_EXCERPT_CHARS), fileName, apiKey));
+  } catch (error) {
+    // Tagging never fails an ingestion; the rule tags are still useful
+    console.error('LLM tagging failed, using rule tags only:', error.message);
+    return tags;
+  }
+}
+
+function ruleTags(text: string): DocumentTags {
+  const found = (patterns: ReturnType<typeof dictionaryPatterns>) =>
+    mostFrequent(patterns.flatMap(({ name, pattern }) =>
+      Array.from(text.matchAll(pattern), () => name)
+    ));
+
+  return {
+    category: CATEGORY_RULES.find(rule => rule.pattern.test(text))?.category ?? 'other',
+    reporting_periods: mostFrequent(Array.from(text.matchAll(PERIOD_PATTERN), normalizePeriod)),
+    states: found(DICTIONARIES.states),
+    cities: found(DICTIONARIES.cities),
+    product_lines: found(DICTIONARIES.product_lines),
+    competitors: found(DICTIONARIES.competitors),
+  };
+}
+
+// Fiscal years are written as the year they end in ("FY2024-25" -> "FY25"),
+// months as "Mar 2024"
+function normalizePeriod(match: RegExpMatchArray): string {
+  const [, part, fyStart, fyEnd, month, fullYear, shortYear] = match;
+  if (month) {
+    const year = fullYear ?? `20${shortYear}`;
+    return `${month[0].toUpperCase()}${month.slice(1, 3).toLowerCase()} ${year}`;
+  }
+  const fiscalYear = `FY${(fyEnd ?? fyStart).slice(-2)}`;
+  return part ? `${part.toUpperCase()} ${fiscalYear}` : fiscalYear;
+}
+
+function mostFrequent(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TAG_VALUES)
+    .map(([value]) => value);
+}
+
+async function llmTags(excerpt: string, fileName: string, apiKey: string): Promise<Partial<DocumentTags>> {
+  const prompt = `You tag documents for the Hero-Vida electric scooter strategy team. Read the document excerpt and return JSON with these keys:
+- "category": one of ${DOCUMENT_CATEGORIES.map(category => `"${category}"`).join(', ')}
+- "reporting_periods": periods the data covers, as "FY25", "Q3 FY25", "H1 FY25" or "Mar 2024" (Indian fiscal years end in March)
+- "states": Indian states or union territories the document covers
+- "cities": Indian cities the document covers
+- "product_lines": Vida products discussed, e.g. "Vida V1 Pro", "Vida V1 Plus"
+- "competitors": competing EV two-wheeler brands or models, e.g. "Ola Electric", "Ather Energy", "TVS iQube", "Bajaj Chetak"
+Use empty lists when the document does not say. Do not guess.
+
+File name: ${fileName}
+
+Excerpt:
+${excerpt}`;
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${TAGGING_MODEL}:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: { responseMimeType: 'application/json', temperature: 0 }
+      })
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Tagging API error ${response.status}: ${await response.text()}`);
+  }
+
+  const result = await response.json();
+  const parsed = JSON.parse(result.candidates?.[0]?.content?.parts?.[0]?.text ?? '{}');
+  const list = (value: unknown) =>
+    (Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [])
+      .map(item => item.trim());
+
+  return {
+    category: DOCUMENT_CATEGORIES.includes(parsed.category) ? parsed.category : undefined,
+    reporting_periods: list(parsed.reporting_periods).flatMap(period => Array.from(period.matchAll(PERIOD_PATTERN), normalizePeriod)),
+    states: list(parsed.states).map(name => canonicalName(name, DICTIONARIES.states)),
+    cities: list(parsed.cities).map(name => canonicalName(name, DICTIONARIES.cities)),
+    product_lines: list(parsed.product_lines).map(name => canonicalName(name, DICTIONARIES.product_lines)),
+    competitors: list(parsed.competitors).map(name => canonicalName(name, DICTIONARIES.competitors)),
+  };
+}
+
+// Names the model spells differently ("Bangalore") map onto the rule vocabulary,
+// so filters see one value per place or brand
+function canonicalName(name: string, patterns: ReturnType<typeof dictionaryPatterns>): string {
+  return patterns.find(({ pattern }) => {
+    pattern.lastIndex = 0;
+    return pattern.test(name);
+  })?.name ?? name;
+}
+
+// The model's category is preferred (rules only see keywords); lists are unioned
+function mergeTags(rules: DocumentTags, llm: Partial<DocumentTags>): DocumentTags {
+  const union = (key: TagList) => [...new Set([...rules[key], ...(llm[key] ?? [])])].slice(0, MAX_TAG_VALUES);
+  return {
+    category: llm.category ?? rules.category,
+    reporting_periods: union('reporting_periods'),
+    states: union('states'),
+    cities: union('cities'),
+    product_lines: union('product_lines'),
+    competitors: union('competitors'),
+  };
+}
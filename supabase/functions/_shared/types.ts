@@ -0,0 +1,51 @@
+import type { ChunkingStrategy } from './chunking.ts';
+import type { StructuredTable } from './schema.ts';
+
+// A contiguous piece of extracted text plus the location it came from
+// (page number, sheet name, row range...). Chunk metadata is derived from it.
+export interface ExtractedSection {
+  text: string;
+  metadata: Record<string, unknown>;
+  // Already sized as a single chunk (e.g. a group of table rows); never split further
+  atomic?: boolean;
+  // Line repeated at the top of every chunk cut from this section (slide title,
+  // heading path) so each chunk still says where it came from
+  context?: string;
+}
+
+// A CSV or sheet row that could not be ingested as written
+export interface RowError {
+  // File name for a CSV, sheet name for a workbook
+  table: string;
+  row: number;
+  problem: string;
+  // The row as it appears in the file
+  raw: string;
+  // Left out of the document, rather than stored with the bad values as null
+  skipped: boolean;
+}
+
+export interface Extraction {
+  sections: ExtractedSection[];
+  // Full text stored on documents.content; defaults to the sections joined together
+  content?: string;
+  // Chunking strategy used unless the upload asks for another one
+  defaultStrategy: ChunkingStrategy;
+  // Document-level details (sheet list, page count...) merged into documents.metadata
+  metadata?: Record<string, unknown>;
+  // Scanned PDF pages without a text layer, recognised by the OCR stage before chunking
+  ocrPages?: number[];
+  // CSV and sheet data with inferred column types, stored in document_tables
+  tables?: StructuredTable[];
+  // Malformed rows found in those tables, for the document's error report
+  rowErrors?: RowError[];
+  // Set when only the start of the file was read (previews of large files)
+  sampled?: ExtractionSample;
+}
+
+// How much of the file an extraction covers, in the unit it was limited by
+export interface ExtractionSample {
+  unit: 'bytes' | 'pages' | 'rows';
+  read: number;
+  total: number;
+}
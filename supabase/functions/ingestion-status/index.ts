@@ -0,0 +1,66 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { JOB_STATUS_COLUMNS, isFinished, jobProgress, kickWorker, type JobStatusRow } from '../_shared/jobs.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+// Jobs shown to a freshly loaded uploader when it does not ask for specific ids
+const RECENT_JOBS_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const { jobIds } = await req.json().catch(() => ({}));
+
+    let query = supabase
+      .from('ingestion_jobs')
+      .select(JOB_STATUS_COLUMNS)
+      .order('created_at', { ascending: true });
+
+    query = Array.isArray(jobIds) && jobIds.length > 0
+      ? query.in('id', jobIds)
+      : query.gte('created_at', new Date(Date.now() - RECENT_JOBS_WINDOW_MS).toISOString()).limit(50);
+
+    const { data: jobs, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load ingestion jobs: ${error.message}`);
+    }
+
+    // Polling doubles as a watchdog: restart the worker if pending work is not locked by anyone
+    const now = Date.now();
+    const stalled = (jobs as JobStatusRow[]).some(job =>
+      !isFinished(job.status) && (!job.locked_until || new Date(job.locked_until).getTime() < now)
+    );
+    if (stalled) {
+      kickWorker();
+    }
+
+    return jsonResponse({
+      jobs: (jobs as JobStatusRow[]).map(job => ({
+        id: job.id,
+        fileName: job.file_name,
+        fileType: job.file_type,
+        fileSize: job.file_size,
+        archive: job.options?.archive ?? null,
+        status: job.status,
+        progress: jobProgress(job),
+        documentId: job.document_id,
+        totalChunks: job.total_chunks,
+        processedChunks: job.processed_chunks,
+        failedChunks: job.failed_chunk_indexes.length,
+        failedChunkIndexes: job.failed_chunk_indexes,
+        rowErrors: job.row_error_count,
+        error: job.error,
+        createdAt: job.created_at,
+        updatedAt: job.updated_at,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Error in ingestion-status function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
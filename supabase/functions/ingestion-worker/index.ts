@@ -0,0 +1,65 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { runIngestionStep } from '../_shared/ingestion.ts';
+import { kickWorker, type IngestionJob } from '../_shared/jobs.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+// A step whose lock keeps expiring (edge function killed mid-step) is given up after this many tries
+const MAX_STEP_ATTEMPTS = 3;
+
+// Claims one runnable job, advances it by one stage, then re-invokes itself
+// until the queue is drained.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createServiceClient();
+  let job: IngestionJob | undefined;
+
+  try {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_ingestion_job');
+    if (claimError) {
+      throw new Error(`Failed to claim ingestion job: ${claimError.message}`);
+    }
+
+    job = (claimed as IngestionJob[] | null)?.[0];
+    if (!job) {
+      return jsonResponse({ jobId: null });
+    }
+
+    console.log('Running ingestion step:', job.id, job.status, `attempt ${job.attempts}`);
+    if (job.attempts > MAX_STEP_ATTEMPTS) {
+      throw new Error(`Stage "${job.status}" did not complete after ${MAX_STEP_ATTEMPTS} attempts`);
+    }
+
+    await runIngestionStep(supabase, job);
+    await supabase.from('ingestion_jobs').update({ locked_until: null }).eq('id', job.id);
+
+    kickWorker();
+    return jsonResponse({ jobId: job.id });
+
+  } catch (error) {
+    console.error('Error in ingestion-worker function:', error);
+
+    if (job) {
+      await supabase
+        .from('ingestion_jobs')
+        .update({
+          status: 'failed',
+          error: error.message,
+          sections: null,
+          chunks: null,
+          locked_until: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+
+      // Other queued jobs are unaffected by this failure
+      kickWorker();
+    }
+
+    return jsonResponse({ error: error.message, jobId: job?.id ?? null }, 500);
+  }
+});
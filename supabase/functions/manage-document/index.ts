@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { deleteDocument, deleteJob } from '../_shared/documents.ts';
+import { queueIngestionJob } from '../_shared/jobs.ts';
+import { createServiceClient, type SupabaseClient } from '../_shared/supabase.ts';
+
+// Document management actions from the document library.
+//   rollback: make an older version (documentId) the current, searched one again
+//   reingest: re-run ingestion for documentIds from their stored files, each
+//             producing a new version that replaces the old one
+//   delete:   purge documentIds (every version when allVersions is set) and/or
+//             jobIds, including stored files, embeddings and job staging data
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const { action, documentId, documentIds, jobIds, allVersions } = await req.json();
+
+    switch (action) {
+      case 'rollback':
+        if (!documentId) {
+          return jsonResponse({ error: 'documentId is required' }, 400);
+        }
+        return await rollback(supabase, documentId);
+      case 'reingest':
+        if (!Array.isArray(documentIds) || documentIds.length === 0) {
+          return jsonResponse({ error: 'documentIds is required' }, 400);
+        }
+        return await reingest(supabase, documentIds);
+      case 'delete':
+        return await purge(supabase, documentIds ?? [], jobIds ?? [], allVersions === true);
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+  } catch (error) {
+    console.error('Error in manage-document function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+async function rollback(supabase: SupabaseClient, documentId: string) {
+  console.log('Rolling back to document version:', documentId);
+
+  // A version whose ingestion never finished has incomplete embeddings
+  const { data: pendingJob } = await supabase
+    .from('ingestion_jobs')
+    .select('id, status')
+    .eq('document_id', documentId)
+    .neq('status', 'done')
+    .limit(1)
+    .maybeSingle();
+  if (pendingJob) {
+    return jsonResponse({ error: `This version's ingestion is ${pendingJob.status}` }, 409);
+  }
+
+  const { error } = await supabase.rpc('set_current_document_version', { target_id: documentId });
+  if (error) {
+    throw new Error(`Failed to roll back: ${error.message}`);
+  }
+  return jsonResponse({ success: true, documentId });
+}
+
+async function reingest(supabase: SupabaseClient, documentIds: string[]) {
+  const { data: documents, error } = await supabase
+    .from('document_library')
+    .select('id, name, type, content_hash, metadata, file_size, collection_id')
+    .in('id', documentIds);
+
+  if (error) {
+    throw new Error(`Failed to load documents: ${error.message}`);
+  }
+
+  const jobIds: string[] = [];
+  const skipped: string[] = [];
+  for (const document of documents) {
+    const originalUrl = document.metadata?.originalUrl;
+    if (!originalUrl) {
+      skipped.push(document.id);
+      continue;
+    }
+
+    console.log('Re-ingesting document:', document.id, document.name);
+    const job = await queueIngestionJob(supabase, {
+      file_name: document.name,
+      file_url: originalUrl,
+      file_type: document.type,
+      file_size: document.file_size,
+      content_hash: document.content_hash,
+      options: {
+        chunking: document.metadata?.chunking,
+        replaceDocumentId: document.id,
+        // The new version stays where the user filed the old one
+        ...(document.collection_id ? { collectionId: document.collection_id } : {}),
+        ...(document.metadata?.user_tags ? { tags: document.metadata.user_tags } : {})
+      }
+    });
+    jobIds.push(job.id);
+  }
+
+  return jsonResponse({ success: true, jobIds, skipped });
+}
+
+async function purge(supabase: SupabaseClient, documentIds: string[], jobIds: string[], allVersions: boolean) {
+  let ids = documentIds;
+
+  if (allVersions && documentIds.length > 0) {
+    const { data: selected, error: keyError } = await supabase
+      .from('documents')
+      .select('document_key')
+      .in('id', documentIds);
+
+    if (keyError) {
+      throw new Error(`Failed to load documents: ${keyError.message}`);
+    }
+
+    // Current versions go last so older versions are not promoted in between
+    const { data: versions, error: versionError } = await supabase
+      .from('documents')
+      .select('id')
+      .in('document_key', selected.map(document => document.document_key))
+      .order('is_current', { ascending: true });
+
+    if (versionError) {
+      throw new Error(`Failed to load document versions: ${versionError.message}`);
+    }
+    ids = versions.map(version => version.id);
+  }
+
+  for (const id of ids) {
+    console.log('Deleting document:', id);
+    await deleteDocument(supabase, id);
+  }
+  for (const id of jobIds) {
+    console.log('Deleting ingestion job:', id);
+    await deleteJob(supabase, id);
+  }
+
+  // Embeddings never linked to a document are unreachable; sweep them while we're here
+  const { error: orphanError } = await supabase
+    .from('embeddings')
+    .delete()
+    .is('document_id', null);
+
+  if (orphanError) {
+    console.error('Orphaned embedding cleanup error:', orphanError);
+  }
+
+  return jsonResponse({ success: true, deletedDocuments: ids.length, deletedJobs: jobIds.length });
+}
@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { activeEmbeddingModel, embedText } from '../_shared/embeddings.ts';
+import { kickWorker } from '../_shared/jobs.ts';
+import { REEMBEDDING_WORKER, isRunning, type ReembeddingJob } from '../_shared/reembedding.ts';
+import { createServiceClient, type SupabaseClient } from '../_shared/supabase.ts';
+
+// ivfflat, the similarity index, handles at most this many dimensions
+const MAX_DIMENSIONS = 2000;
+
+// Embedding model settings from the configuration panel.
+//   status: the active model and the latest re-embedding job
+//   start:  re-embed every chunk with model/dimensions, switching retrieval over
+//           once all chunks are done
+//   cancel: stop the running job (jobId); the active model stays as it was
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const { action, model, dimensions, jobId } = await req.json();
+
+    switch (action) {
+      case 'status':
+        return await status(supabase);
+      case 'start':
+        if (typeof model !== 'string' || !model.trim()) {
+          return jsonResponse({ error: 'model is required' }, 400);
+        }
+        if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_DIMENSIONS) {
+          return jsonResponse({ error: `dimensions must be a whole number from 1 to ${MAX_DIMENSIONS}` }, 400);
+        }
+        return await start(supabase, model.trim(), dimensions);
+      case 'cancel':
+        if (!jobId) {
+          return jsonResponse({ error: 'jobId is required' }, 400);
+        }
+        return await cancel(supabase, jobId);
+      default:
+        return jsonResponse({ error: `Unknown action: ${action}` }, 400);
+    }
+
+  } catch (error) {
+    console.error('Error in manage-embeddings function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
+
+async function status(supabase: SupabaseClient) {
+  const active = await activeEmbeddingModel(supabase);
+  const { data: job, error } = await supabase
+    .from('reembedding_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load re-embedding job: ${error.message}`);
+  }
+
+  // Polling doubles as a watchdog, as for ingestion
+  if (job && isRunning(job.status) && (!job.locked_until || new Date(job.locked_until).getTime() < Date.now())) {
+    kickWorker(REEMBEDDING_WORKER);
+  }
+
+  return jsonResponse({ active, job: job ? jobSummary(job) : null });
+}
+
+async function start(supabase: SupabaseClient, model: string, dimensions: number) {
+  const active = await activeEmbeddingModel(supabase);
+  if (active.model === model && active.dimensions === dimensions) {
+    return jsonResponse({ error: `${model} (${dimensions} dimensions) is already the active model` }, 400);
+  }
+
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured');
+  }
+
+  // Catch a mistyped or unavailable model before any chunk is touched
+  try {
+    await embedText('Embedding model check', apiKey, { model, dimensions });
+  } catch (error) {
+    return jsonResponse({ error: `Cannot embed with ${model}: ${error.message}` }, 400);
+  }
+
+  const { data, error } = await supabase.rpc('start_reembedding', {
+    target_model: model,
+    target_dimensions: dimensions,
+  });
+
+  if (error) {
+    // Unique violation on the one-running-job index
+    if (error.code === '23505') {
+      return jsonResponse({ error: 'A re-embedding is already running' }, 409);
+    }
+    throw new Error(`Failed to start re-embedding: ${error.message}`);
+  }
+
+  const job = (data as ReembeddingJob[])[0];
+  console.log('Started re-embedding:', job.id, `${active.model} -> ${model}`, `${job.total_chunks} chunks`);
+  kickWorker(REEMBEDDING_WORKER);
+  return jsonResponse({ active, job: jobSummary(job) }, 202);
+}
+
+async function cancel(supabase: SupabaseClient, jobId: string) {
+  const { data, error } = await supabase
+    .from('reembedding_jobs')
+    .update({ status: 'cancelled', locked_until: null, updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .in('status', ['queued', 'embedding'])
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to cancel re-embedding: ${error.message}`);
+  }
+  if (data.length === 0) {
+    return jsonResponse({ error: 'This re-embedding is not running' }, 409);
+  }
+  return jsonResponse({ success: true, jobId });
+}
+
+function jobSummary(job: ReembeddingJob) {
+  return {
+    id: job.id,
+    model: job.model,
+    dimensions: job.dimensions,
+    previousModel: job.previous_model,
+    previousDimensions: job.previous_dimensions,
+    status: job.status,
+    totalChunks: job.total_chunks,
+    processedChunks: job.processed_chunks,
+    error: job.error,
+    createdAt: job.created_at,
+    completedAt: job.completed_at,
+  };
+}
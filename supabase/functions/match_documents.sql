@@ -1,12 +1,17 @@
 -- Create a function to match documents based on similarity
 CREATE OR REPLACE FUNCTION match_documents (
-  query_embedding vector(768),
+  query_embedding vector,
   match_threshold float,
-  match_count int
+  match_count int,
+  include_superseded boolean DEFAULT false,
+  metadata_filter jsonb DEFAULT NULL,
+  collection_ids uuid[] DEFAULT NULL
 )
 RETURNS TABLE (
   id uuid,
+  document_id uuid,
   content text,
+  metadata jsonb,
   similarity float
 )
 LANGUAGE plpgsql
@@ -15,10 +20,17 @@ BEGIN
   RETURN QUERY
   SELECT
     embeddings.id,
+    embeddings.document_id,
     embeddings.content,
+    embeddings.metadata,
     1 - (embeddings.embedding <=> query_embedding) AS similarity
   FROM embeddings
-  WHERE 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+  JOIN documents ON documents.id = embeddings.document_id
+  WHERE embeddings.model = (SELECT embedding_settings.model FROM embedding_settings)
+    AND 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    AND (documents.is_current OR include_superseded)
+    AND (metadata_filter IS NULL OR embeddings.metadata @> metadata_filter)
+    AND (collection_ids IS NULL OR documents.collection_id = ANY(collection_ids))
   ORDER BY embeddings.embedding <=> query_embedding
   LIMIT match_count;
 END;
@@ -1,161 +1,316 @@
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { entryStoragePath, isArchive, listArchive, readArchiveEntry } from '../_shared/archive.ts';
+import type { ChunkingOptions } from '../_shared/chunking.ts';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { hashContent } from '../_shared/documents.ts';
+import { TEXT_ENCODINGS, isTextEncoding, type TextEncodingName } from '../_shared/encoding.ts';
+import { activeEmbeddingModel } from '../_shared/embeddings.ts';
+import { extractFile, sampleUnit } from '../_shared/extract.ts';
+import { queueIngestionJob } from '../_shared/jobs.ts';
+import {
+  PREVIEW_MAX_FILE_BYTES, PREVIEW_PAGES, PREVIEW_ROWS, PREVIEW_SAMPLE_BYTES, previewIngestion
+} from '../_shared/preview.ts';
+import { createServiceClient, type SupabaseClient } from '../_shared/supabase.ts';
+import type { Extraction, ExtractionSample } from '../_shared/types.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+const DUPLICATE_MODES = ['skip', 'replace', 'version'] as const;
 
+type DuplicateMode = typeof DUPLICATE_MODES[number];
+
+interface UploadOptions {
+  collectionId?: string;
+  tags?: string[];
+}
+
+interface Duplicate {
+  documentId: string | null;
+  jobId: string | null;
+  name: string;
+  createdAt: string;
+}
+
+// Queues an uploaded file for ingestion. The ingestion-worker function does the
+// actual extraction, chunking and embedding; poll ingestion-status for progress.
+//
+// When contentHash matches an existing document (or a file still being ingested)
+// and onDuplicate is not given, nothing is queued and the duplicate is returned so
+// the user can choose to skip, replace it, or keep both as versions.
+//
+// A ZIP archive is expanded here instead: every supported file in it is stored and
+// queued as its own document, and files that cannot be ingested are reported as
+// skipped rather than failing the archive.
+//
+// With preview set, the file is extracted and chunked but nothing is queued or
+// stored: the response describes the text, structure and chunks ingestion would
+// produce, so chunking options can be tuned before paying for embeddings. The
+// stored file is left in place for the upload to be confirmed or discarded.
+// Large files are previewed from their start, with the figures scaled up (see
+// _shared/preview.ts).
+//
+// encoding overrides the character encoding detected for a CSV, both when
+// previewing and when queueing.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const supabase = createClient(
-      'https://nupqpsayufclflmtfjin.supabase.co',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
-    );
+    const supabase = createServiceClient();
 
-    const { fileName, fileUrl, fileType } = await req.json();
-    console.log('Processing file:', fileName, fileType);
+    const {
+      fileName, fileUrl, fileType, fileSize, contentHash, onDuplicate, chunking, encoding, collectionId, tags, preview
+    } = await req.json();
+    console.log(preview ? 'Previewing file:' : 'Queueing file:', fileName, fileType);
 
-    // Download file from storage
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from('documents')
-      .download(fileUrl);
-
-    if (downloadError) {
-      console.error('Download error:', downloadError);
-      throw new Error(`Failed to download file: ${downloadError.message}`);
+    if (!fileName || !fileUrl || !fileType) {
+      return jsonResponse({ error: 'fileName, fileUrl and fileType are required' }, 400);
     }
-
-    // Extract text based on file type
-    let text = '';
-    if (fileType === 'text/csv' || fileType === 'application/vnd.ms-excel') {
-      text = await fileData.text();
-    } else if (fileType === 'application/pdf') {
-      // For PDF, we'd need a PDF parser - for now just treating as text
-      text = await fileData.text();
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+      return jsonResponse({ error: 'tags must be a list of strings' }, 400);
+    }
+    if (encoding !== undefined && !isTextEncoding(encoding)) {
+      return jsonResponse({ error: `encoding must be one of ${TEXT_ENCODINGS.join(', ')}` }, 400);
+    }
+    if (onDuplicate !== undefined && !DUPLICATE_MODES.includes(onDuplicate)) {
+      return jsonResponse({ error: `onDuplicate must be one of ${DUPLICATE_MODES.join(', ')}` }, 400);
     }
 
-    console.log('Extracted text length:', text.length);
-
-    // Store document
-    const { data: document, error: docError } = await supabase
-      .from('documents')
-      .insert({
-        name: fileName,
-        type: fileType,
-        content: text,
-        metadata: { originalUrl: fileUrl }
-      })
-      .select()
-      .single();
-
-    if (docError) {
-      console.error('Document insert error:', docError);
-      throw new Error(`Failed to store document: ${docError.message}`);
+    if (isArchive(fileType, fileName)) {
+      if (preview) {
+        return jsonResponse({ error: 'ZIP archives cannot be previewed; preview the files in them instead' }, 400);
+      }
+      return await expandArchive(supabase, fileName, fileUrl, { collectionId, tags });
     }
 
-    // Chunk text for embeddings
-    const chunks = chunkText(text, 500);
-    console.log('Created chunks:', chunks.length);
+    const duplicate = contentHash ? await findDuplicate(supabase, contentHash) : null;
 
-    // Generate embeddings using Gemini
-    const apiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!apiKey) {
-      throw new Error('Gemini API key not configured');
+    if (preview) {
+      return await previewFile(supabase, fileName, fileUrl, fileType, { chunking, encoding }, duplicate);
     }
+    const mode: DuplicateMode | undefined = onDuplicate;
 
-    const embeddings = [];
-    for (const chunk of chunks) {
-      try {
-        const embeddingResponse = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              model: 'models/text-embedding-004',
-              content: { parts: [{ text: chunk }] }
-            })
-          }
-        );
-
-        if (!embeddingResponse.ok) {
-          console.error('Embedding API error:', await embeddingResponse.text());
-          continue;
-        }
-
-        const embeddingResult = await embeddingResponse.json();
-        const vector = embeddingResult.embedding?.values;
-
-        if (vector) {
-          embeddings.push({
-            document_id: document.id,
-            content: chunk,
-            embedding: vector,
-            metadata: { chunk_index: embeddings.length }
-          });
-        }
-      } catch (error) {
-        console.error('Error generating embedding for chunk:', error);
-      }
+    if (duplicate && !mode) {
+      console.log('Duplicate upload of', duplicate.name);
+      return jsonResponse({ status: 'duplicate', duplicate });
     }
 
-    // Store embeddings
-    if (embeddings.length > 0) {
-      const { error: embeddingError } = await supabase
-        .from('embeddings')
-        .insert(embeddings);
-
-      if (embeddingError) {
-        console.error('Embedding insert error:', embeddingError);
-        throw new Error(`Failed to store embeddings: ${embeddingError.message}`);
+    if (duplicate && mode === 'skip') {
+      const { error: removeError } = await supabase.storage.from('documents').remove([fileUrl]);
+      if (removeError) {
+        console.error('Storage delete error:', removeError);
       }
+      return jsonResponse({ status: 'skipped', duplicate });
     }
 
-    console.log('Successfully processed file with', embeddings.length, 'embeddings');
+    const job = await queueIngestionJob(supabase, {
+      file_name: fileName,
+      file_url: fileUrl,
+      file_type: fileType,
+      file_size: fileSize ?? null,
+      content_hash: contentHash ?? null,
+      options: {
+        chunking,
+        ...(encoding ? { encoding } : {}),
+        ...(collectionId ? { collectionId } : {}),
+        ...(tags?.length ? { tags } : {}),
+        // A duplicate that is still being ingested has no document to replace yet
+        ...(duplicate?.documentId && mode === 'replace' ? { replaceDocumentId: duplicate.documentId } : {}),
+        ...(duplicate?.documentId && mode === 'version' ? { previousDocumentId: duplicate.documentId } : {})
+      }
+    });
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        documentId: document.id,
-        chunksProcessed: embeddings.length 
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ success: true, jobId: job.id, status: job.status }, 202);
 
   } catch (error) {
     console.error('Error in process-file function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    return jsonResponse({ error: error.message }, 500);
   }
 });
 
-function chunkText(text: string, maxTokens: number): string[] {
-  const words = text.split(/\s+/);
-  const chunks: string[] = [];
-  let currentChunk: string[] = [];
-  
-  for (const word of words) {
-    currentChunk.push(word);
-    if (currentChunk.length >= maxTokens) {
-      chunks.push(currentChunk.join(' '));
-      currentChunk = [];
+async function previewFile(
+  supabase: SupabaseClient,
+  fileName: string,
+  fileUrl: string,
+  fileType: string,
+  options: { chunking?: Partial<ChunkingOptions>; encoding?: TextEncodingName },
+  duplicate: Duplicate | null
+) {
+  const unit = sampleUnit(fileType, fileName);
+  // PDFs and workbooks are downloaded whole; extraction reads only their first pages or rows
+  const download = await downloadForPreview(supabase, fileUrl, {
+    sampleBytes: unit === 'bytes' ? PREVIEW_SAMPLE_BYTES : undefined,
+    maxBytes: unit === null ? PREVIEW_MAX_FILE_BYTES : undefined,
+  });
+  if (!download) {
+    return jsonResponse({
+      error: `Files of this type over ${PREVIEW_MAX_FILE_BYTES / (1024 * 1024)} MB cannot be previewed; ingest the file directly`
+    }, 413);
+  }
+
+  let extraction: Extraction;
+  try {
+    extraction = await extractFile(download.data, fileName, fileType, {
+      encoding: options.encoding,
+      maxPages: PREVIEW_PAGES,
+      maxRows: PREVIEW_ROWS,
+    });
+  } catch (error) {
+    // The same error would fail the ingestion job; report it as the preview's outcome
+    return jsonResponse({ error: error.message }, 422);
+  }
+  if (download.sampled) {
+    extraction = { ...extraction, sampled: download.sampled };
+  }
+  const result = previewIngestion(extraction, options.chunking, await activeEmbeddingModel(supabase));
+  console.log(`Preview of ${fileName}: ${result.chunks.total} chunks, ${result.estimate.embeddingRequests} embedding requests`);
+
+  // The duplicate is reported now; confirming still asks how to resolve it
+  return jsonResponse({ status: 'preview', preview: result, duplicate });
+}
+
+// Reads the stored file for a preview. With sampleBytes, only the start of the
+// file is fetched and cut after its last complete line; with maxBytes, a larger
+// file is not fetched at all and null is returned.
+async function downloadForPreview(
+  supabase: SupabaseClient,
+  fileUrl: string,
+  options: { sampleBytes?: number; maxBytes?: number }
+): Promise<{ data: Blob; sampled?: ExtractionSample } | null> {
+  const { data: signed, error: signError } = await supabase.storage
+    .from('documents')
+    .createSignedUrl(fileUrl, 60);
+
+  if (signError) {
+    throw new Error(`Failed to download file: ${signError.message}`);
+  }
+
+  const response = await fetch(
+    signed.signedUrl,
+    options.sampleBytes ? { headers: { Range: `bytes=0-${options.sampleBytes - 1}` } } : {}
+  );
+  // An empty file has no bytes to return for the range
+  if (response.status === 416) {
+    return { data: new Blob([]) };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+  }
+  if (options.maxBytes && Number(response.headers.get('content-length')) > options.maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // A partial response means the file is longer than the sample
+  const total = Number(response.headers.get('content-range')?.split('/')[1]);
+  if (response.status !== 206 || !(total > bytes.length)) {
+    return { data: new Blob([bytes]) };
+  }
+
+  // Cut after the last line break so no row is cut short; in UTF-16 LE the
+  // break is followed by its zero high byte
+  let end = bytes.lastIndexOf(0x0a) + 1;
+  if (end === 0) end = bytes.length;
+  else if (end % 2 === 1 && bytes[end] === 0) end++;
+  return { data: new Blob([bytes.subarray(0, end)]), sampled: { unit: 'bytes', read: end, total } };
+}
+
+async function expandArchive(supabase: SupabaseClient, fileName: string, fileUrl: string, options: UploadOptions) {
+  const { data: archiveFile, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(fileUrl);
+
+  if (downloadError) {
+    throw new Error(`Failed to download archive: ${downloadError.message}`);
+  }
+
+  const data = new Uint8Array(await archiveFile.arrayBuffer());
+  const entries = listArchive(data);
+  // Groups the archive's jobs in the uploader, including after a page reload
+  const archive = { id: crypto.randomUUID(), name: fileName };
+  const folder = fileUrl.replace(/\.zip$/i, '');
+  console.log('Expanding archive:', fileName, `(${entries.length} files)`);
+
+  const jobs: Array<{ jobId: string; fileName: string; fileType: string; fileSize: number; path: string }> = [];
+  const skipped: Array<{ fileName: string; path: string; reason: string }> = [];
+
+  for (const entry of entries) {
+    if (entry.skipReason || !entry.type) {
+      skipped.push({ fileName: entry.name, path: entry.path, reason: entry.skipReason ?? 'Unsupported file type' });
+      continue;
+    }
+
+    const bytes = readArchiveEntry(data, entry.path);
+    const contentHash = await hashContent(bytes);
+    const duplicate = await findDuplicate(supabase, contentHash);
+    if (duplicate) {
+      skipped.push({ fileName: entry.name, path: entry.path, reason: `Already ingested as "${duplicate.name}"` });
+      continue;
+    }
+
+    const entryUrl = entryStoragePath(folder, entry.path);
+    const { error: uploadError } = await supabase.storage
+      .from('documents')
+      .upload(entryUrl, new Blob([bytes], { type: entry.type }), { upsert: true });
+
+    if (uploadError) {
+      console.error('Archive entry upload error:', uploadError);
+      skipped.push({ fileName: entry.name, path: entry.path, reason: `Could not be stored: ${uploadError.message}` });
+      continue;
     }
+
+    const job = await queueIngestionJob(supabase, {
+      file_name: entry.name,
+      file_url: entryUrl,
+      file_type: entry.type,
+      file_size: entry.size,
+      content_hash: contentHash,
+      options: {
+        archive: { ...archive, path: entry.path },
+        ...(options.collectionId ? { collectionId: options.collectionId } : {}),
+        ...(options.tags?.length ? { tags: options.tags } : {}),
+      }
+    });
+    jobs.push({ jobId: job.id, fileName: entry.name, fileType: entry.type, fileSize: entry.size, path: entry.path });
+  }
+
+  // Each queued file has its own stored copy; the archive itself is no longer needed
+  const { error: removeError } = await supabase.storage.from('documents').remove([fileUrl]);
+  if (removeError) {
+    console.error('Storage delete error:', removeError);
+  }
+
+  console.log(`Archive ${fileName}: ${jobs.length} queued, ${skipped.length} skipped`);
+  return jsonResponse({ status: 'expanded', archive, jobs, skipped }, 202);
+}
+
+async function findDuplicate(supabase: SupabaseClient, contentHash: string): Promise<Duplicate | null> {
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('id, name, created_at')
+    .eq('content_hash', contentHash)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (docError) {
+    throw new Error(`Failed to check for duplicates: ${docError.message}`);
   }
-  
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk.join(' '));
+  if (document) {
+    return { documentId: document.id, jobId: null, name: document.name, createdAt: document.created_at };
   }
-  
-  return chunks;
-}
\ No newline at end of file
+
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .select('id, file_name, created_at')
+    .eq('content_hash', contentHash)
+    .not('status', 'in', '(done,failed)')
+    .limit(1)
+    .maybeSingle();
+
+  if (jobError) {
+    throw new Error(`Failed to check for duplicates: ${jobError.message}`);
+  }
+
+  return job ? { documentId: null, jobId: job.id, name: job.file_name, createdAt: job.created_at } : null;
+}
@@ -1,12 +1,59 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { activeEmbeddingModel, embedText } from '../_shared/embeddings.ts';
+import { describeTable, type ColumnSchema } from '../_shared/schema.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Chat filters -> the tag lists they match in chunk metadata
+const tagFilterKeys: Record<string, string> = {
+  reportingPeriod: 'reporting_periods',
+  state: 'states',
+  city: 'cities',
+  productLine: 'product_lines',
+  competitor: 'competitors',
+};
+
+// Builds a containment filter over chunk tags, e.g. { tags: { states: ['Kerala'] } }
+const tagFilter = (filters: Record<string, string | undefined> | undefined) => {
+  const tags: Record<string, unknown> = {};
+  if (filters?.category) {
+    tags.category = filters.category;
+  }
+  for (const [filter, key] of Object.entries(tagFilterKeys)) {
+    if (filters?.[filter]) {
+      tags[key] = [filters[filter]];
+    }
+  }
+  return Object.keys(tags).length > 0 ? { tags } : null;
+};
+
+interface MatchedChunk {
+  document_id: string;
+  content: string;
+  metadata: {
+    rows?: Array<{ row: number; values: Record<string, unknown> }>;
+    amounts?: Array<{ text: string; value: number; currency?: string }>;
+    dates?: Array<{ text: string; value: string }>;
+  } | null;
+}
+
+// Chunk text as written, followed by its figures and dates normalized at ingestion
+// (lakh/crore amounts as plain numbers, ISO dates) so they compare reliably
+const chunkContext = (chunk: MatchedChunk) => {
+  const { rows, amounts, dates } = chunk.metadata ?? {};
+  const lines = [
+    ...(rows ?? []).map(row => `Row ${row.row}: ${JSON.stringify(row.values)}`),
+    ...(amounts ?? []).map(amount => `${amount.text} = ${amount.value}${amount.currency ? ` ${amount.currency}` : ''}`),
+    ...(dates ?? []).map(date => `${date.text} = ${date.value}`),
+  ];
+  return lines.length > 0 ? `${chunk.content}\nNormalized values:\n${lines.join('\n')}` : chunk.content;
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -18,37 +65,18 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
     );
 
-    const { question } = await req.json();
-    console.log('Processing question:', question);
+    const { question, includeSuperseded, filters, collectionIds } = await req.json();
+    const metadataFilter = tagFilter(filters);
+    const scopedCollectionIds = Array.isArray(collectionIds) && collectionIds.length > 0 ? collectionIds : null;
+    console.log('Processing question:', question, metadataFilter ? JSON.stringify(metadataFilter) : '');
 
     const apiKey = Deno.env.get('GEMINI_API_KEY');
     if (!apiKey) {
       throw new Error('Gemini API key not configured');
     }
 
-    // Generate embedding for the question
-    const embeddingResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:embedContent?key=${apiKey}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'models/text-embedding-004',
-          content: { parts: [{ text: question }] }
-        })
-      }
-    );
-
-    if (!embeddingResponse.ok) {
-      throw new Error('Failed to generate question embedding');
-    }
-
-    const embeddingResult = await embeddingResponse.json();
-    const questionVector = embeddingResult.embedding?.values;
-
-    if (!questionVector) {
-      throw new Error('No embedding generated for question');
-    }
+    // Embed the question with the model the stored chunks were embedded with
+    const questionVector = await embedText(question, apiKey, await activeEmbeddingModel(supabase));
 
     // Search for similar embeddings using cosine similarity
     const { data: similarChunks, error: searchError } = await supabase.rpc(
@@ -56,24 +84,48 @@ serve(async (req) => {
       {
         query_embedding: questionVector,
         match_threshold: 0.7,
-        match_count: 5
+        match_count: 5,
+        include_superseded: includeSuperseded === true,
+        metadata_filter: metadataFilter,
+        // Chat scoped to collections only searches documents filed in them
+        collection_ids: scopedCollectionIds
       }
     );
 
     let relevantContext = '';
+    let structuredContext = '';
     if (searchError) {
       console.log('RPC function not found, falling back to simple search');
       // Fallback: get recent documents
-      const { data: documents } = await supabase
+      let fallbackQuery = supabase
         .from('documents')
         .select('content')
-        .limit(3);
+        .eq('is_current', true);
+      if (scopedCollectionIds) {
+        fallbackQuery = fallbackQuery.in('collection_id', scopedCollectionIds);
+      }
+      const { data: documents } = await fallbackQuery.limit(3);
       
       if (documents && documents.length > 0) {
         relevantContext = documents.map(doc => doc.content).join('\n\n');
       }
     } else if (similarChunks && similarChunks.length > 0) {
-      relevantContext = similarChunks.map((chunk: any) => chunk.content).join('\n\n');
+      relevantContext = similarChunks.map(chunkContext).join('\n\n');
+
+      // Tables behind the matched chunks, summarised from the structured store
+      const documentIds = [...new Set(similarChunks.map((chunk: MatchedChunk) => chunk.document_id))];
+      const { data: tables, error: tablesError } = await supabase
+        .from('document_tables')
+        .select('name, columns, row_count')
+        .in('document_id', documentIds);
+
+      if (tablesError) {
+        console.error('Failed to load structured tables:', tablesError);
+      } else if (tables && tables.length > 0) {
+        structuredContext = tables
+          .map(table => describeTable(table.name, table.columns as ColumnSchema[], table.row_count))
+          .join('\n\n');
+      }
     }
 
     // Generate response using Gemini
@@ -81,7 +133,10 @@ serve(async (req) => {
 
 Context:
 ${relevantContext}
-
+${structuredContext ? `
+Structured data (exact figures computed over every row of the tables above; prefer these to adding up rows yourself):
+${structuredContext}
+` : ''}
 Question: ${question}
 
 Please provide a detailed and accurate answer based only on the information provided in the context.`;
@@ -0,0 +1,68 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { kickWorker } from '../_shared/jobs.ts';
+import { REEMBEDDING_WORKER, runReembeddingStep, type ReembeddingJob } from '../_shared/reembedding.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
+
+// A step whose lock keeps expiring (edge function killed mid-step) is given up after this many tries
+const MAX_STEP_ATTEMPTS = 3;
+
+// How long a switch blocked by running ingestion waits before trying again
+const SWITCH_RETRY_DELAY_MS = 15000;
+
+// Claims the running re-embedding job, embeds one batch of chunks (or switches
+// models once all are done), then re-invokes itself until the job finishes.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createServiceClient();
+  let job: ReembeddingJob | undefined;
+
+  try {
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_reembedding_job');
+    if (claimError) {
+      throw new Error(`Failed to claim re-embedding job: ${claimError.message}`);
+    }
+
+    job = (claimed as ReembeddingJob[] | null)?.[0];
+    if (!job) {
+      return jsonResponse({ jobId: null });
+    }
+
+    console.log('Running re-embedding step:', job.id, job.model, `attempt ${job.attempts}`);
+    if (job.attempts > MAX_STEP_ATTEMPTS) {
+      throw new Error(`Re-embedding step did not complete after ${MAX_STEP_ATTEMPTS} attempts`);
+    }
+
+    const ready = await runReembeddingStep(supabase, job);
+    await supabase.from('reembedding_jobs').update({ locked_until: null }).eq('id', job.id);
+
+    if (!ready) {
+      await new Promise(resolve => setTimeout(resolve, SWITCH_RETRY_DELAY_MS));
+    }
+    kickWorker(REEMBEDDING_WORKER);
+    return jsonResponse({ jobId: job.id });
+
+  } catch (error) {
+    console.error('Error in reembedding-worker function:', error);
+
+    if (job) {
+      // A cancelled job keeps its status
+      await supabase
+        .from('reembedding_jobs')
+        .update({
+          status: 'failed',
+          error: error.message,
+          locked_until: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+        .in('status', ['queued', 'embedding']);
+    }
+
+    return jsonResponse({ error: error.message, jobId: job?.id ?? null }, 500);
+  }
+});
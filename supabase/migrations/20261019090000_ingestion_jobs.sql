@@ -0,0 +1,56 @@
+-- Queue of files waiting to be ingested. The ingestion-worker edge function
+-- advances each job one stage per invocation; the uploader polls ingestion-status.
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  file_url TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  file_size BIGINT,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'extracting', 'chunking', 'embedding', 'done', 'failed')),
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  -- Staging data handed from one stage to the next, cleared once consumed
+  sections JSONB,
+  chunks JSONB,
+  chunking JSONB,
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  processed_chunks INTEGER NOT NULL DEFAULT 0,
+  failed_chunk_indexes INTEGER[] NOT NULL DEFAULT '{}',
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_pending_idx
+  ON ingestion_jobs (created_at)
+  WHERE status NOT IN ('done', 'failed');
+
+-- Atomically locks the oldest runnable job so concurrent workers never share one.
+-- A lock that expires (worker killed mid-step) makes the job claimable again.
+CREATE OR REPLACE FUNCTION claim_ingestion_job (
+  lock_seconds int DEFAULT 150
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE ingestion_jobs
+  SET locked_until = NOW() + make_interval(secs => lock_seconds),
+      attempts = ingestion_jobs.attempts + 1,
+      updated_at = NOW()
+  WHERE ingestion_jobs.id = (
+    SELECT pending.id
+    FROM ingestion_jobs AS pending
+    WHERE pending.status NOT IN ('done', 'failed')
+      AND (pending.locked_until IS NULL OR pending.locked_until < NOW())
+    ORDER BY pending.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ingestion_jobs.*;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- SHA-256 of the uploaded file, used to detect re-uploads of identical content
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS documents_content_hash_idx ON documents (content_hash);
+CREATE INDEX IF NOT EXISTS ingestion_jobs_content_hash_idx ON ingestion_jobs (content_hash);
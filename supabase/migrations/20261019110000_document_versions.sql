@@ -0,0 +1,81 @@
+-- Files re-uploaded under the same name become new versions of one logical document.
+-- Only the current version of each document is searched unless older ones are asked for.
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS document_key TEXT;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT false;
+
+-- Backfill: documents sharing a name become versions in upload order, newest current
+WITH ranked AS (
+  SELECT
+    id,
+    lower(trim(name)) AS key,
+    row_number() OVER (PARTITION BY lower(trim(name)) ORDER BY created_at, id) AS version,
+    count(*) OVER (PARTITION BY lower(trim(name))) AS total
+  FROM documents
+)
+UPDATE documents
+SET document_key = ranked.key,
+    version = ranked.version,
+    is_current = ranked.version = ranked.total
+FROM ranked
+WHERE documents.id = ranked.id AND documents.document_key IS NULL;
+
+ALTER TABLE documents ALTER COLUMN document_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS documents_key_version_idx ON documents (document_key, version);
+CREATE UNIQUE INDEX IF NOT EXISTS documents_current_key_idx ON documents (document_key) WHERE is_current;
+
+-- Makes one version the current one for its document key (used on ingest and rollback)
+CREATE OR REPLACE FUNCTION set_current_document_version (
+  target_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_key text;
+BEGIN
+  SELECT document_key INTO target_key FROM documents WHERE id = target_id;
+  IF target_key IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', target_id;
+  END IF;
+
+  UPDATE documents SET is_current = false WHERE document_key = target_key AND is_current AND id <> target_id;
+  UPDATE documents SET is_current = true WHERE id = target_id;
+END;
+$$;
+
+-- Return type changes, so the old signature has to go first
+DROP FUNCTION IF EXISTS match_documents(vector, float, int);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  include_superseded boolean DEFAULT false
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    embeddings.id,
+    embeddings.document_id,
+    embeddings.content,
+    embeddings.metadata,
+    1 - (embeddings.embedding <=> query_embedding) AS similarity
+  FROM embeddings
+  JOIN documents ON documents.id = embeddings.document_id
+  WHERE 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    AND (documents.is_current OR include_superseded)
+  ORDER BY embeddings.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- One row per document with what the document library needs: chunk count from
+-- embeddings plus size and status of the ingestion job that produced it.
+CREATE OR REPLACE VIEW document_library AS
+SELECT
+  documents.id,
+  documents.name,
+  documents.type,
+  documents.document_key,
+  documents.version,
+  documents.is_current,
+  documents.content_hash,
+  documents.metadata,
+  documents.created_at,
+  (SELECT count(*) FROM embeddings WHERE embeddings.document_id = documents.id)::integer AS chunk_count,
+  job.id AS job_id,
+  job.file_size,
+  COALESCE(job.status, 'done') AS ingestion_status,
+  job.error AS ingestion_error
+FROM documents
+LEFT JOIN LATERAL (
+  SELECT ingestion_jobs.id, ingestion_jobs.file_size, ingestion_jobs.status, ingestion_jobs.error
+  FROM ingestion_jobs
+  WHERE ingestion_jobs.document_id = documents.id
+  ORDER BY ingestion_jobs.created_at DESC
+  LIMIT 1
+) AS job ON true;
+
+CREATE INDEX IF NOT EXISTS embeddings_document_id_idx ON embeddings (document_id);
@@ -0,0 +1,10 @@
+-- Scanned PDF pages have no text layer and are recognised by OCR in a stage of
+-- their own, a few pages per worker invocation, between extraction and chunking.
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_status_check;
+ALTER TABLE ingestion_jobs ADD CONSTRAINT ingestion_jobs_status_check
+  CHECK (status IN ('queued', 'extracting', 'ocr', 'chunking', 'embedding', 'done', 'failed'));
+
+ALTER TABLE ingestion_jobs
+  -- Pages still waiting for OCR, out of ocr_page_count
+  ADD COLUMN IF NOT EXISTS ocr_pages INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS ocr_page_count INTEGER NOT NULL DEFAULT 0;
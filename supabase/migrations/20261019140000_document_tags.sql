@@ -0,0 +1,41 @@
+-- Documents and their chunks are tagged at ingest (metadata.tags: category, reporting
+-- periods, states, cities, product lines, competitors). Retrieval can be narrowed to
+-- chunks whose metadata contains a given filter, e.g. {"tags": {"states": ["Kerala"]}}.
+CREATE INDEX IF NOT EXISTS embeddings_metadata_idx ON embeddings USING gin (metadata jsonb_path_ops);
+
+-- A new parameter changes the signature, so the old one has to go first
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, boolean);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  include_superseded boolean DEFAULT false,
+  metadata_filter jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    embeddings.id,
+    embeddings.document_id,
+    embeddings.content,
+    embeddings.metadata,
+    1 - (embeddings.embedding <=> query_embedding) AS similarity
+  FROM embeddings
+  JOIN documents ON documents.id = embeddings.document_id
+  WHERE 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    AND (documents.is_current OR include_superseded)
+    AND (metadata_filter IS NULL OR embeddings.metadata @> metadata_filter)
+  ORDER BY embeddings.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
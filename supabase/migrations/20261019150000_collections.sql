@@ -0,0 +1,84 @@
+-- Collections group documents by initiative (e.g. "FY25 pricing study"). A document
+-- is chosen into at most one collection at upload, and chat can be scoped to a set
+-- of collections so teams don't get answers from each other's material.
+CREATE TABLE IF NOT EXISTS collections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS collections_name_idx ON collections (lower(name));
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS collection_id UUID REFERENCES collections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS documents_collection_id_idx ON documents (collection_id);
+
+-- New columns go last so the view can be replaced in place
+CREATE OR REPLACE VIEW document_library AS
+SELECT
+  documents.id,
+  documents.name,
+  documents.type,
+  documents.document_key,
+  documents.version,
+  documents.is_current,
+  documents.content_hash,
+  documents.metadata,
+  documents.created_at,
+  (SELECT count(*) FROM embeddings WHERE embeddings.document_id = documents.id)::integer AS chunk_count,
+  job.id AS job_id,
+  job.file_size,
+  COALESCE(job.status, 'done') AS ingestion_status,
+  job.error AS ingestion_error,
+  documents.collection_id,
+  collections.name AS collection_name
+FROM documents
+LEFT JOIN collections ON collections.id = documents.collection_id
+LEFT JOIN LATERAL (
+  SELECT ingestion_jobs.id, ingestion_jobs.file_size, ingestion_jobs.status, ingestion_jobs.error
+  FROM ingestion_jobs
+  WHERE ingestion_jobs.document_id = documents.id
+  ORDER BY ingestion_jobs.created_at DESC
+  LIMIT 1
+) AS job ON true;
+
+-- A new parameter changes the signature, so the old one has to go first
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, boolean, jsonb);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector(768),
+  match_threshold float,
+  match_count int,
+  include_superseded boolean DEFAULT false,
+  metadata_filter jsonb DEFAULT NULL,
+  collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    embeddings.id,
+    embeddings.document_id,
+    embeddings.content,
+    embeddings.metadata,
+    1 - (embeddings.embedding <=> query_embedding) AS similarity
+  FROM embeddings
+  JOIN documents ON documents.id = embeddings.document_id
+  WHERE 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    AND (documents.is_current OR include_superseded)
+    AND (metadata_filter IS NULL OR embeddings.metadata @> metadata_filter)
+    AND (collection_ids IS NULL OR documents.collection_id = ANY(collection_ids))
+  ORDER BY embeddings.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,215 @@
+-- The embedding model is a server-side setting rather than something each edge
+-- function hardcodes. Changing it re-embeds every chunk in the background into
+-- pending columns, then switches all chunks and the setting in one transaction,
+-- so retrieval never compares vectors from two different models.
+CREATE TABLE IF NOT EXISTS embedding_settings (
+  -- Single-row table
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO embedding_settings (model, dimensions)
+VALUES ('text-embedding-004', 768)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE embeddings
+  ADD COLUMN IF NOT EXISTS model TEXT,
+  -- Written by a re-embedding job, swapped into embedding/model once every chunk has one
+  ADD COLUMN IF NOT EXISTS pending_embedding vector,
+  ADD COLUMN IF NOT EXISTS pending_model TEXT;
+
+UPDATE embeddings SET model = 'text-embedding-004' WHERE model IS NULL;
+ALTER TABLE embeddings ALTER COLUMN model SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS reembedding_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  -- previous_model/dimensions record what the switch replaced
+  previous_model TEXT NOT NULL,
+  previous_dimensions INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'embedding', 'done', 'failed', 'cancelled')),
+  total_chunks INTEGER NOT NULL DEFAULT 0,
+  processed_chunks INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one re-embedding runs at a time
+CREATE UNIQUE INDEX IF NOT EXISTS reembedding_jobs_active_idx
+  ON reembedding_jobs ((true))
+  WHERE status IN ('queued', 'embedding');
+
+-- Queues a re-embedding. Pending vectors left by an earlier, interrupted job for the
+-- same model and dimensions are kept, so retrying resumes where it stopped.
+CREATE OR REPLACE FUNCTION start_reembedding (
+  target_model text,
+  target_dimensions int
+)
+RETURNS SETOF reembedding_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  active embedding_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO active FROM embedding_settings;
+
+  UPDATE embeddings
+  SET pending_embedding = NULL, pending_model = NULL
+  WHERE pending_model IS NOT NULL
+    AND (pending_model <> target_model OR vector_dims(pending_embedding) <> target_dimensions);
+
+  RETURN QUERY
+  INSERT INTO reembedding_jobs (model, dimensions, previous_model, previous_dimensions, total_chunks)
+  VALUES (target_model, target_dimensions, active.model, active.dimensions, (SELECT count(*) FROM embeddings))
+  RETURNING *;
+END;
+$$;
+
+-- Same locking scheme as claim_ingestion_job
+CREATE OR REPLACE FUNCTION claim_reembedding_job (
+  lock_seconds int DEFAULT 150
+)
+RETURNS SETOF reembedding_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE reembedding_jobs
+  SET locked_until = NOW() + make_interval(secs => lock_seconds),
+      attempts = reembedding_jobs.attempts + 1,
+      updated_at = NOW()
+  WHERE reembedding_jobs.id = (
+    SELECT pending.id
+    FROM reembedding_jobs AS pending
+    WHERE pending.status IN ('queued', 'embedding')
+      AND (pending.locked_until IS NULL OR pending.locked_until < NOW())
+    ORDER BY pending.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING reembedding_jobs.*;
+END;
+$$;
+
+-- Stores a batch of new vectors; chunks is [{ "id": ..., "embedding": [...] }]
+CREATE OR REPLACE FUNCTION store_pending_embeddings (
+  target_model text,
+  chunks jsonb
+)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE embeddings
+  SET pending_embedding = (chunk->>'embedding')::vector,
+      pending_model = target_model
+  FROM jsonb_array_elements(chunks) AS chunk
+  WHERE embeddings.id = (chunk->>'id')::uuid;
+$$;
+
+-- Swaps every chunk to its pending vector and makes the job's model the active one.
+-- Returns false, changing nothing, while chunks are still missing a pending vector
+-- (e.g. a file ingested mid-job) or an ingestion job is writing old-model vectors.
+CREATE OR REPLACE FUNCTION switch_embedding_model (
+  target_job_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target reembedding_jobs%ROWTYPE;
+  active embedding_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM reembedding_jobs WHERE id = target_job_id FOR UPDATE;
+  IF target.id IS NULL OR target.status NOT IN ('queued', 'embedding') THEN
+    RAISE EXCEPTION 'Re-embedding job % is not running', target_job_id;
+  END IF;
+
+  -- Holds off new chunks until the switch commits
+  LOCK TABLE embeddings IN SHARE ROW EXCLUSIVE MODE;
+
+  IF EXISTS (SELECT 1 FROM embeddings WHERE pending_model IS NULL)
+    OR EXISTS (SELECT 1 FROM ingestion_jobs WHERE status = 'embedding') THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO active FROM embedding_settings FOR UPDATE;
+
+  IF active.dimensions = target.dimensions THEN
+    UPDATE embeddings
+    SET embedding = pending_embedding, model = pending_model,
+        pending_embedding = NULL, pending_model = NULL;
+  ELSE
+    -- The column is typed with its dimensions for the similarity index, so both
+    -- are rebuilt around the new vectors
+    DROP INDEX IF EXISTS embeddings_embedding_idx;
+    ALTER TABLE embeddings ALTER COLUMN embedding TYPE vector;
+    UPDATE embeddings
+    SET embedding = pending_embedding, model = pending_model,
+        pending_embedding = NULL, pending_model = NULL;
+    EXECUTE format('ALTER TABLE embeddings ALTER COLUMN embedding TYPE vector(%s)', target.dimensions);
+    CREATE INDEX embeddings_embedding_idx ON embeddings USING ivfflat (embedding vector_cosine_ops);
+  END IF;
+
+  UPDATE embedding_settings
+  SET model = target.model, dimensions = target.dimensions, updated_at = NOW();
+
+  UPDATE reembedding_jobs
+  SET status = 'done',
+      processed_chunks = total_chunks,
+      locked_until = NULL,
+      completed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = target_job_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Any dimensions are accepted now, and only chunks embedded with the active model
+-- are searched
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, boolean, jsonb, uuid[]);
+
+CREATE OR REPLACE FUNCTION match_documents (
+  query_embedding vector,
+  match_threshold float,
+  match_count int,
+  include_superseded boolean DEFAULT false,
+  metadata_filter jsonb DEFAULT NULL,
+  collection_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    embeddings.id,
+    embeddings.document_id,
+    embeddings.content,
+    embeddings.metadata,
+    1 - (embeddings.embedding <=> query_embedding) AS similarity
+  FROM embeddings
+  JOIN documents ON documents.id = embeddings.document_id
+  WHERE embeddings.model = (SELECT embedding_settings.model FROM embedding_settings)
+    AND 1 - (embeddings.embedding <=> query_embedding) > match_threshold
+    AND (documents.is_current OR include_superseded)
+    AND (metadata_filter IS NULL OR embeddings.metadata @> metadata_filter)
+    AND (collection_ids IS NULL OR documents.collection_id = ANY(collection_ids))
+  ORDER BY embeddings.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- CSVs and spreadsheet sheets are also loaded as typed tables, so exact figures
+-- can be looked up and aggregated instead of read back out of text chunks.
+-- Each table belongs to one document version and goes with it.
+CREATE TABLE IF NOT EXISTS document_tables (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  -- File name for a CSV, sheet name for a workbook
+  name TEXT NOT NULL,
+  -- [{ name, type, currency?, stats }] in column order, see _shared/schema.ts
+  columns JSONB NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS document_tables_document_id_idx ON document_tables (document_id);
+
+CREATE TABLE IF NOT EXISTS document_table_rows (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  table_id UUID NOT NULL REFERENCES document_tables(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  -- Row number in the source file (header is row 1), as cited by chunks
+  row_number INTEGER NOT NULL,
+  -- Normalized values by column name: numbers, ISO dates, trimmed strings or null
+  data JSONB NOT NULL,
+  -- The cells as they appear in the file
+  raw JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS document_table_rows_table_idx ON document_table_rows (table_id, row_number);
+CREATE INDEX IF NOT EXISTS document_table_rows_document_id_idx ON document_table_rows (document_id);
+CREATE INDEX IF NOT EXISTS document_table_rows_data_idx ON document_table_rows USING gin (data jsonb_path_ops);
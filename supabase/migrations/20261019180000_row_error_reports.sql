@@ -0,0 +1,22 @@
+-- Rows of a CSV or sheet that could not be ingested cleanly: wrong column count
+-- (the row is left out) or values that cannot be read as their column's type
+-- (stored as null). Kept per document so the report can be downloaded later.
+CREATE TABLE IF NOT EXISTS document_row_errors (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  -- File name for a CSV, sheet name for a workbook
+  table_name TEXT NOT NULL,
+  -- Row number in the source file (header is row 1)
+  row_number INTEGER NOT NULL,
+  problem TEXT NOT NULL,
+  -- The row as it appears in the file
+  raw_line TEXT NOT NULL,
+  -- Whether the row was left out of the document altogether
+  skipped BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS document_row_errors_document_idx ON document_row_errors (document_id, row_number);
+
+-- Reported by ingestion-status so the uploader can flag a partial ingestion
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS row_error_count INTEGER NOT NULL DEFAULT 0;